@@ -1,8 +1,9 @@
-import React, { useEffect, useState } from 'react'
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
+import React, { useEffect, useRef, useState } from 'react'
+import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { supabase } from './lib/supabase'
-import { useAppStore } from './store/useAppStore'
+import { sessionPath, useWorkspaceRoute } from './lib/routes'
+import { useAppStore, type WorkspaceTab } from './store/useAppStore'
 import { Auth } from './components/Auth'
 import { Layout } from './components/Layout'
 import { HomePage } from './components/HomePage'
@@ -10,12 +11,18 @@ import { Chat } from './components/Chat'
 import { CodeEditor } from './components/CodeEditor'
 import { CodeSculpture } from './components/CodeSculpture'
 import { Dashboard } from './components/Dashboard'
+import { AcceptInvite } from './components/AcceptInvite'
 import { MessageSquare, Code, BarChart3, Cuboid as Cube, Loader2 } from 'lucide-react'
 
 function MainApp() {
-  const [activeTab, setActiveTab] = useState<'chat' | 'code' | 'sculpture' | 'dashboard'>('chat')
-  const [showHomePage, setShowHomePage] = useState(true)
-  const { loadSessions, currentSession, cleanupSubscriptions } = useAppStore()
+  const navigate = useNavigate()
+  const { sessionId, tab: routeTab } = useWorkspaceRoute()
+  // Without a session in the URL the tabs only show their empty states
+  const [localTab, setLocalTab] = useState<WorkspaceTab>('chat')
+  const [showHomePage, setShowHomePage] = useState(!sessionId)
+  const { loadSessions, joinSession, cleanupSubscriptions, updatePresence } = useAppStore()
+  const joinedSessionId = useRef<string | null>(null)
+  const activeTab = sessionId ? routeTab ?? 'chat' : localTab
 
   useEffect(() => {
     loadSessions()
@@ -26,6 +33,27 @@ function MainApp() {
     }
   }, [loadSessions, cleanupSubscriptions])
 
+  // The URL decides which session is open. If it cannot be joined, go back
+  // to the session that was open before, if any.
+  useEffect(() => {
+    if (!sessionId || joinedSessionId.current === sessionId) return
+    joinedSessionId.current = sessionId
+
+    const previous = useAppStore.getState().currentSession
+    if (previous?.id === sessionId) return
+
+    joinSession(sessionId).then(() => {
+      if (useAppStore.getState().currentSession?.id !== sessionId) {
+        navigate(previous ? sessionPath(previous.id) : '/', { replace: true })
+      }
+    })
+  }, [sessionId, joinSession, navigate])
+
+  // Let other participants see which tab this user is on
+  useEffect(() => {
+    updatePresence({ tab: activeTab })
+  }, [activeTab, updatePresence])
+
   const tabs = [
     { id: 'chat', label: 'Chat', icon: MessageSquare, component: Chat },
     { id: 'code', label: 'Code', icon: Code, component: CodeEditor },
@@ -39,7 +67,19 @@ function MainApp() {
     setShowHomePage(false)
   }
 
-  if (showHomePage) {
+  const handleTabChange = (tabId: WorkspaceTab) => {
+    if (sessionId) {
+      navigate(sessionPath(sessionId, tabId))
+    } else {
+      setLocalTab(tabId)
+    }
+  }
+
+  if (sessionId && !routeTab) {
+    return <Navigate to={sessionPath(sessionId)} replace />
+  }
+
+  if (showHomePage && !sessionId) {
     return <HomePage onGetStarted={handleGetStarted} />
   }
 
@@ -54,7 +94,7 @@ function MainApp() {
               {tabs.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => handleTabChange(tab.id)}
                   className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
                     activeTab === tab.id
                       ? 'border-primary-500 text-primary-600 dark:text-primary-400'
@@ -140,6 +180,14 @@ function App() {
             path="/"
             element={user ? <MainApp /> : <Auth />}
           />
+          <Route
+            path="/session/:sessionId/*"
+            element={user ? <MainApp /> : <Auth />}
+          />
+          <Route
+            path="/invite/:token"
+            element={user ? <AcceptInvite /> : <Auth />}
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { Loader2, MailX } from 'lucide-react'
+import { useAppStore } from '../store/useAppStore'
+import { sessionPath } from '../lib/routes'
+
+// Landing page for the link in an invitation email. Signing in happens
+// first, on the same URL, so the token survives it.
+export function AcceptInvite() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const acceptInvitation = useAppStore((state) => state.acceptInvitation)
+  const [error, setError] = useState<string | null>(null)
+  // Effects run twice in development; an invitation is accepted once
+  const started = useRef(false)
+
+  useEffect(() => {
+    if (!token || started.current) return
+    started.current = true
+
+    acceptInvitation(token)
+      .then((sessionId) => navigate(sessionPath(sessionId), { replace: true }))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to accept invitation')
+      })
+  }, [token, acceptInvitation, navigate])
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 flex items-center justify-center p-4">
+      {error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 border border-gray-200 dark:border-gray-700 max-w-md w-full text-center">
+          <MailX className="w-10 h-10 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Invitation unavailable
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+          <button
+            onClick={() => navigate('/', { replace: true })}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          >
+            Go to CodexOrb
+          </button>
+        </div>
+      ) : (
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-500 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Accepting invitation...</p>
+        </div>
+      )}
+    </div>
+  )
+}
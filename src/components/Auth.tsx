@@ -25,7 +25,10 @@ export function Auth() {
           options: {
             data: {
               name: name
-            }
+            },
+            // Confirming the email comes back to the page that asked for it,
+            // such as a shared session link
+            emailRedirectTo: window.location.href
           }
         })
         
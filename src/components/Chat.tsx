@@ -1,14 +1,51 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { Send, Mic, MicOff, Bot, User, Loader2, Zap, Users, Share2, Copy, Check } from 'lucide-react'
+import { Send, Mic, MicOff, Bot, User, Loader2, Zap, Users, Share2, Check, FileCode } from 'lucide-react'
 import { useAppStore } from '../store/useAppStore'
 import { motion, AnimatePresence } from 'framer-motion'
 import toast from 'react-hot-toast'
+import { classifyIntent, INTENT_LABELS, type Intent } from '../lib/intent'
+import type { RunResult } from '../lib/runtime'
+import { PresenceAvatars } from './PresenceAvatars'
+import { ShareModal } from './ShareModal'
+import { can, ROLE_LABELS, type SessionAction } from '../lib/permissions'
+
+// Intents the user can force from the input; "meta" is only ever detected
+const INTENT_OVERRIDES: Intent[] = ['question', 'new_code', 'modify_code', 'run']
+
+// What the user's role must allow for each pipeline
+const INTENT_ACTIONS: Record<Intent, SessionAction> = {
+  question: 'chat',
+  meta: 'chat',
+  new_code: 'generate',
+  modify_code: 'generate',
+  run: 'run',
+}
+
+// Program output quoted in the chat after a run; the Code tab has all of it
+const MAX_SUMMARY_LINES = 20
+
+const RUN_STATUS_TEXT: Record<RunResult['status'], string> = {
+  success: 'finished',
+  error: 'failed',
+  timeout: 'hit the time limit',
+}
+
+function summarizeRun(filename: string, result: RunResult) {
+  const lines = result.output.filter(line => line.stream !== 'system').map(line => line.text)
+  const shown = lines.slice(0, MAX_SUMMARY_LINES)
+  if (lines.length > shown.length) shown.push(`... ${lines.length - shown.length} more lines in the Code tab`)
+
+  return [
+    `Ran ${filename}: ${RUN_STATUS_TEXT[result.status]} in ${result.durationMs}ms.`,
+    shown.length ? `\n${shown.join('\n')}` : 'No output.'
+  ].join('\n')
+}
 
 export function Chat() {
   const [message, setMessage] = useState('')
   const [isListening, setIsListening] = useState(false)
   const [showShareModal, setShowShareModal] = useState(false)
-  const [copied, setCopied] = useState(false)
+  const [intentOverride, setIntentOverride] = useState<Intent | 'auto'>('auto')
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const recognition = useRef<SpeechRecognition | null>(null)
   
@@ -19,15 +56,46 @@ export function Chat() {
     isLoading,
     sendMessage, 
     generateCode,
+    runCodeFile,
     sessionParticipants,
-    inviteToSession
+    sessionRole,
+    presence,
+    generation,
+    codeFiles
   } = useAppStore()
 
-  const hasGroqKey = !!import.meta.env.VITE_GROQ_API_KEY
+  // The edge functions decide which provider answers; the latest AI message
+  // records which one it was and whether its output was simulated
+  const lastAiMessage = [...messages].reverse().find(m => m.type === 'ai')
+  const mockMode = lastAiMessage?.metadata?.mock === true
+  const providerName: string | undefined = lastAiMessage?.metadata?.provider
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, generation])
+
+  const stageLabel = (stage: NonNullable<typeof generation>['stage']) => {
+    if (stage === 'planning') return 'Planning files...'
+    if (stage === 'generating') return 'Writing code...'
+    if (stage === 'analyzing') return 'Analyzing code quality...'
+    return 'Saving files...'
+  }
+
+  // Files created or changed by an AI message, as recorded in its metadata
+  const fileResult = (msg: typeof messages[number]) => {
+    const generated: string[] = Array.isArray(msg.metadata?.generatedFiles) ? msg.metadata.generatedFiles : []
+    const edited: string[] = Array.isArray(msg.metadata?.editedFiles) ? msg.metadata.editedFiles : []
+    const count = generated.length || edited.length
+    if (count === 0) return null
+
+    const plural = count !== 1 ? 's' : ''
+    return {
+      label: generated.length > 0 ? `Generated ${count} file${plural}` : `Updated ${count} file${plural}`,
+      fileIds: [...generated, ...edited]
+    }
+  }
+
+  const activeFile = generation?.files.find(f => !f.done) ?? generation?.files[generation.files.length - 1]
 
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -54,18 +122,52 @@ export function Chat() {
     }
   }, [])
 
+  const detectedIntent = classifyIntent(message, codeFiles)
+  const canChat = can(sessionRole, 'chat')
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!message.trim() || !currentSession) return
 
     const userMessage = message.trim()
     setMessage('')
-    
-    // Send message first
-    await sendMessage(userMessage, 'user')
-    
-    // Then generate code
-    await generateCode(userMessage)
+
+    const { intent: detected, targetFileId } = classifyIntent(userMessage, codeFiles)
+    const intent = intentOverride === 'auto' ? detected : intentOverride
+
+    if (!can(sessionRole, INTENT_ACTIONS[intent])) {
+      setMessage(userMessage)
+      toast.error(`${ROLE_LABELS[sessionRole ?? 'viewer']}s cannot ${INTENT_LABELS[intent].toLowerCase()} in this session`)
+      return
+    }
+    const targetFile = codeFiles.find(f => f.id === targetFileId) ?? codeFiles[0]
+
+    // Questions and session queries get a chat reply; everything else is
+    // answered by the pipeline it was routed to
+    await sendMessage(userMessage, 'user', {
+      intent,
+      respond: intent === 'question' || intent === 'meta',
+      targetFileId
+    })
+
+    if (intent === 'new_code') {
+      await generateCode(userMessage, { mode: 'create' })
+    } else if (intent === 'modify_code') {
+      if (!targetFile) {
+        await sendMessage('There are no files to edit yet. Describe what to build first.', 'system', { respond: false })
+        return
+      }
+      await generateCode(userMessage, { mode: 'edit', targetFileId: targetFile.id })
+    } else if (intent === 'run') {
+      if (!targetFile) {
+        await sendMessage('There is no code to run yet.', 'system', { respond: false })
+        return
+      }
+      const result = await runCodeFile(targetFile.id)
+      if (result) {
+        await sendMessage(summarizeRun(targetFile.filename, result), 'system', { respond: false })
+      }
+    }
   }
 
   const toggleListening = () => {
@@ -80,33 +182,6 @@ export function Chat() {
     }
   }
 
-  const handleShare = async () => {
-    if (!currentSession) return
-    
-    const shareUrl = `${window.location.origin}/session/${currentSession.id}`
-    
-    try {
-      await navigator.clipboard.writeText(shareUrl)
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
-      toast.success('Session link copied to clipboard!')
-    } catch (error) {
-      toast.error('Failed to copy link')
-    }
-  }
-
-  const handleInviteUser = async (email: string) => {
-    if (!currentSession) return
-    
-    try {
-      await inviteToSession(currentSession.id, email)
-      toast.success(`Invitation sent to ${email}`)
-      setShowShareModal(false)
-    } catch (error) {
-      toast.error('Failed to send invitation')
-    }
-  }
-
   if (!currentSession) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -126,24 +201,30 @@ export function Chat() {
   return (
     <div className="h-full flex flex-col">
       {/* AI Status Banner */}
-      <div className={`${hasGroqKey ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'} border-b px-6 py-3`}>
+      <div className={`${!mockMode ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'} border-b px-6 py-3`}>
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            <Zap className={`w-4 h-4 ${hasGroqKey ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}`} />
-            <span className={`text-sm ${hasGroqKey ? 'text-green-800 dark:text-green-200' : 'text-yellow-800 dark:text-yellow-200'}`}>
-              {hasGroqKey 
-                ? 'Groq AI enabled - Real AI responses active' 
-                : 'Mock AI mode - Add VITE_GROQ_API_KEY to .env for real AI'
+            <Zap className={`w-4 h-4 ${!mockMode ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}`} />
+            <span className={`text-sm ${!mockMode ? 'text-green-800 dark:text-green-200' : 'text-yellow-800 dark:text-yellow-200'}`}>
+              {!mockMode
+                ? 'AI enabled - Real AI responses active'
+                : 'Mock AI mode - Responses are simulated by the mock provider'
               }
             </span>
           </div>
           
           {/* Collaboration Controls */}
           <div className="flex items-center space-x-3">
+            {sessionRole && (
+              <span className="px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-800 text-xs text-gray-600 dark:text-gray-400">
+                {ROLE_LABELS[sessionRole]}
+              </span>
+            )}
             <div className="flex items-center space-x-2">
+              <PresenceAvatars people={presence} />
               <Users className="w-4 h-4 text-gray-500" />
               <span className="text-sm text-gray-600 dark:text-gray-400">
-                {sessionParticipants.length} participant{sessionParticipants.length !== 1 ? 's' : ''}
+                {presence.length} online · {sessionParticipants.length} participant{sessionParticipants.length !== 1 ? 's' : ''}
               </span>
             </div>
             <button
@@ -160,45 +241,119 @@ export function Chat() {
       {/* Messages */}
       <div className="flex-1 overflow-y-auto scrollbar-thin p-6 space-y-4">
         <AnimatePresence>
-          {messages.map((msg) => (
-            <motion.div
-              key={msg.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              className={`flex items-start space-x-3 ${
-                msg.type === 'user' ? 'justify-end' : 'justify-start'
-              }`}
-            >
-              {msg.type === 'ai' && (
-                <div className="w-8 h-8 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-4 h-4 text-white" />
-                </div>
-              )}
+          {messages.map((msg) => {
+            const result = fileResult(msg)
+            return (
+              <motion.div
+                key={msg.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                className={`flex items-start space-x-3 ${
+                  msg.type === 'user' ? 'justify-end' : 'justify-start'
+                }`}
+              >
+                {msg.type === 'ai' && (
+                  <div className="w-8 h-8 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Bot className="w-4 h-4 text-white" />
+                  </div>
+                )}
               
-              <div className={`max-w-2xl ${msg.type === 'user' ? 'order-first' : ''}`}>
-                <div className={`px-4 py-3 rounded-2xl font-mono text-sm ${
-                  msg.type === 'user'
-                    ? 'bg-primary-500 text-white'
-                    : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
-                }`}>
-                  {msg.content}
+                <div className={`max-w-2xl ${msg.type === 'user' ? 'order-first' : ''}`}>
+                  <div className={`px-4 py-3 rounded-2xl font-mono text-sm whitespace-pre-wrap ${
+                    msg.type === 'user'
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                  }`}>
+                    {msg.content}
+                    {result && (
+                      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                          {result.label}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {codeFiles
+                            .filter(f => result.fileIds.includes(f.id))
+                            .map(f => (
+                              <span key={f.id} className="inline-flex items-center space-x-1 px-2 py-0.5 bg-white dark:bg-gray-900 rounded text-xs">
+                                <FileCode className="w-3 h-3" />
+                                <span>{f.filename}</span>
+                              </span>
+                            ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>{new Date(msg.created_at).toLocaleTimeString()}</span>
+                    {msg.metadata?.mock && (
+                      <span
+                        className="px-1.5 py-0.5 rounded bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
+                        title="Produced by the mock provider, not a real model"
+                      >
+                        Mock
+                      </span>
+                    )}
+                  </div>
                 </div>
-                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                  {new Date(msg.created_at).toLocaleTimeString()}
-                </div>
-              </div>
               
-              {msg.type === 'user' && (
-                <div className="w-8 h-8 bg-gray-300 dark:bg-gray-600 rounded-full flex items-center justify-center flex-shrink-0">
-                  <User className="w-4 h-4 text-gray-600 dark:text-gray-300" />
-                </div>
-              )}
-            </motion.div>
-          ))}
+                {msg.type === 'user' && (
+                  <div className="w-8 h-8 bg-gray-300 dark:bg-gray-600 rounded-full flex items-center justify-center flex-shrink-0">
+                    <User className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+                  </div>
+                )}
+              </motion.div>
+            )
+          })}
         </AnimatePresence>
         
-        {isLoading && (
+        {generation && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="flex items-start space-x-3"
+          >
+            <div className="w-8 h-8 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center flex-shrink-0">
+              <Bot className="w-4 h-4 text-white" />
+            </div>
+            <div className="max-w-2xl w-full bg-gray-100 dark:bg-gray-800 rounded-2xl overflow-hidden">
+              <div className="flex items-center space-x-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>{stageLabel(generation.stage)}</span>
+              </div>
+
+              {generation.plan.length > 0 && (
+                <ul className="px-4 py-2 space-y-1 border-b border-gray-200 dark:border-gray-700">
+                  {generation.plan.map((planned) => {
+                    const file = generation.files.find(f => f.filename === planned.path)
+                    return (
+                      <li key={planned.path} className="flex items-center space-x-2 text-xs">
+                        {file?.done ? (
+                          <Check className="w-3 h-3 text-green-500 flex-shrink-0" />
+                        ) : file ? (
+                          <Loader2 className="w-3 h-3 animate-spin text-primary-500 flex-shrink-0" />
+                        ) : (
+                          <FileCode className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                        )}
+                        <span className="font-mono text-gray-900 dark:text-gray-100">{planned.path}</span>
+                        <span className="truncate text-gray-500 dark:text-gray-400">{planned.purpose}</span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+
+              {activeFile && generation.stage === 'generating' && (
+                <pre className="px-4 py-3 max-h-80 overflow-y-auto scrollbar-thin font-mono text-xs text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                  {activeFile.content}
+                  <span className="inline-block w-2 h-4 align-middle bg-primary-500 animate-pulse" />
+                </pre>
+              )}
+            </div>
+          </motion.div>
+        )}
+        
+        {isLoading && !generation && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -211,7 +366,7 @@ export function Chat() {
               <div className="flex items-center space-x-2">
                 <Loader2 className="w-4 h-4 animate-spin" />
                 <span className="text-sm text-gray-600 dark:text-gray-400">
-                  {hasGroqKey ? 'Generating code with Groq AI...' : 'Generating code...'}
+                  Thinking...
                 </span>
               </div>
             </div>
@@ -223,15 +378,47 @@ export function Chat() {
 
       {/* Input */}
       <div className="border-t border-gray-200 dark:border-gray-800 p-6">
+        <div className="mb-3 flex items-center space-x-1 text-xs">
+          <button
+            type="button"
+            onClick={() => setIntentOverride('auto')}
+            className={`px-2.5 py-1 rounded-md transition-colors ${
+              intentOverride === 'auto'
+                ? 'bg-primary-500 text-white'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+            title="Route the message automatically"
+          >
+            Auto{intentOverride === 'auto' && message.trim() ? `: ${INTENT_LABELS[detectedIntent.intent]}` : ''}
+          </button>
+          {INTENT_OVERRIDES.map((intent) => (
+            <button
+              key={intent}
+              type="button"
+              onClick={() => setIntentOverride(intent)}
+              disabled={!can(sessionRole, INTENT_ACTIONS[intent])}
+              className={`px-2.5 py-1 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                intentOverride === intent
+                  ? 'bg-primary-500 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {INTENT_LABELS[intent]}
+            </button>
+          ))}
+        </div>
+
         <form onSubmit={handleSubmit} className="flex items-center space-x-4">
           <div className="flex-1 relative">
             <input
               type="text"
               value={message}
               onChange={(e) => setMessage(e.target.value)}
-              placeholder="Describe what you want to build..."
+              placeholder={canChat
+                ? 'Ask a question or describe what to build...'
+                : 'Viewers can follow the conversation but not post'}
               className="w-full px-4 py-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent font-mono text-sm disabled:opacity-50"
-              disabled={isLoading}
+              disabled={isLoading || !canChat}
             />
             
             {voiceInput && recognition.current && (
@@ -251,7 +438,7 @@ export function Chat() {
           
           <button
             type="submit"
-            disabled={!message.trim() || isLoading}
+            disabled={!message.trim() || isLoading || !canChat}
             className="px-6 py-3 bg-primary-500 text-white rounded-xl hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
           >
             {isLoading ? (
@@ -264,94 +451,18 @@ export function Chat() {
         </form>
         
         <div className="mt-2 flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
-          <Zap className={`w-3 h-3 ${hasGroqKey ? 'text-green-500' : 'text-yellow-500'}`} />
+          <Zap className={`w-3 h-3 ${!mockMode ? 'text-green-500' : 'text-yellow-500'}`} />
           <span>
-            {hasGroqKey 
-              ? 'Powered by Groq AI - Ultra-fast inference' 
-              : 'Mock AI mode - Add VITE_GROQ_API_KEY to .env for real AI'
+            {!mockMode
+              ? `Powered by ${providerName || 'CodexOrb AI'}`
+              : 'Mock AI mode - Set LLM_PROVIDER on the edge functions for real AI'
             }
           </span>
         </div>
       </div>
 
-      {/* Share Modal */}
       {showShareModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="bg-white dark:bg-gray-800 rounded-2xl p-6 w-full max-w-md"
-          >
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
-              Share Session
-            </h3>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Session Link
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="text"
-                    value={`${window.location.origin}/session/${currentSession.id}`}
-                    readOnly
-                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm"
-                  />
-                  <button
-                    onClick={handleShare}
-                    className="px-3 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
-                  >
-                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  </button>
-                </div>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Invite by Email
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="email"
-                    placeholder="colleague@example.com"
-                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm"
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter') {
-                        const email = (e.target as HTMLInputElement).value
-                        if (email) {
-                          handleInviteUser(email)
-                          ;(e.target as HTMLInputElement).value = ''
-                        }
-                      }
-                    }}
-                  />
-                  <button
-                    onClick={() => {
-                      const input = document.querySelector('input[type="email"]') as HTMLInputElement
-                      if (input?.value) {
-                        handleInviteUser(input.value)
-                        input.value = ''
-                      }
-                    }}
-                    className="px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
-                  >
-                    Invite
-                  </button>
-                </div>
-              </div>
-            </div>
-            
-            <div className="flex justify-end space-x-3 mt-6">
-              <button
-                onClick={() => setShowShareModal(false)}
-                className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
-              >
-                Close
-              </button>
-            </div>
-          </motion.div>
-        </div>
+        <ShareModal onClose={() => setShowShareModal(false)} />
       )}
     </div>
   )
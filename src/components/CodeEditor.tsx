@@ -1,75 +1,422 @@
-import React, { useState } from 'react'
-import Editor from '@monaco-editor/react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react'
 import { 
   File, 
   Download, 
   Play, 
-  AlertCircle, 
   CheckCircle,
   Loader2,
-  Edit3,
   Save,
-  X,
   Copy,
-  ExternalLink
+  ExternalLink,
+  Keyboard,
+  History,
+  Users,
+  Upload,
+  FilePlus,
+  LayoutTemplate
 } from 'lucide-react'
-import { useAppStore } from '../store/useAppStore'
-import { motion } from 'framer-motion'
+import { useAppStore, type CodeFile, type FixProposal } from '../store/useAppStore'
+import type { CodeIssue } from '../lib/supabase'
+import { ProblemsPanel } from './ProblemsPanel'
+import { RunOutputPanel } from './RunOutputPanel'
+import { canRun, type SourceLocation } from '../lib/runtime'
+import { FixPreview } from './FixPreview'
+import { FileHistory } from './FileHistory'
+import { ExportDialog } from './ExportDialog'
+import { ImportDialog } from './ImportDialog'
+import { SaveTemplateDialog } from './SaveTemplateDialog'
+import { FileTree } from './FileTree'
+import { EditorTabs } from './EditorTabs'
+import { MergeDialog } from './MergeDialog'
+import { useCollaboration } from '../lib/collab/useCollaboration'
+import { presenceColorIndex } from '../lib/presence'
+import { can } from '../lib/permissions'
+import { sessionPath, useWorkspaceRoute } from '../lib/routes'
+import { downloadFile } from '../lib/export'
+import { readDroppedFiles, readFileList, type ImportResult } from '../lib/import'
+import { SaveConflictError } from '../lib/conflicts'
 import toast from 'react-hot-toast'
 
+// Pseudo file ids used to select files that are still being generated
+const STREAMING_FILE_PREFIX = '__streaming__:'
+
+// Owner ids for markers on the Monaco model
+const MARKER_OWNER = 'codexorb-analysis'
+const RUNTIME_MARKER_OWNER = 'codexorb-runtime'
+
+type MonacoEditor = Parameters<OnMount>[0]
+
 export function CodeEditor() {
-  const { codeFiles, currentSession, darkMode, updateCodeFile } = useAppStore()
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
-  const [isEditing, setIsEditing] = useState(false)
-  const [editedContent, setEditedContent] = useState('')
-  const [isRunning, setIsRunning] = useState(false)
+  const {
+    user,
+    codeFiles,
+    currentSession,
+    darkMode,
+    generation,
+    execution,
+    updateCodeFile,
+    analyzeCodeFile,
+    proposeFix,
+    runCodeFile,
+    clearExecution,
+    sessionRole,
+    presence,
+    remoteCursors,
+    updatePresence,
+    broadcastCursor
+  } = useAppStore()
+  const navigate = useNavigate()
+  const { sessionId, fileId: routeFileId } = useWorkspaceRoute()
+  // Saved files are opened through the URL; a file that is still being
+  // generated has no URL, so selecting one is kept here and takes precedence
+  const [streamingSelection, setStreamingSelection] = useState<string | null>(null)
+  const selectedFile = streamingSelection ?? routeFileId
+  // Files open as tabs, in the order they were opened
+  const [openTabs, setOpenTabs] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const wasStreaming = useRef(false)
+  const monacoRef = useRef<Monaco | null>(null)
+  // The editor's Ctrl+S command outlives renders, so it calls the latest save
+  const saveRef = useRef(() => {})
+  const [editorInstance, setEditorInstance] = useState<MonacoEditor | null>(null)
+  const [fixingIssue, setFixingIssue] = useState<CodeIssue | null>(null)
+  // A fix only applies to the version of the file it was proposed for
+  const [fixProposal, setFixProposal] = useState<{ issue: CodeIssue, proposal: FixProposal, baseUpdatedAt: string } | null>(null)
+  const [isApplyingFix, setIsApplyingFix] = useState(false)
+  const [showStdin, setShowStdin] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+  const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [newFilePath, setNewFilePath] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [stdin, setStdin] = useState('')
+  const [pendingReveal, setPendingReveal] = useState<{ fileId: string, line: number } | null>(null)
 
   const currentFile = codeFiles.find(f => f.id === selectedFile)
+  const streamingFiles = generation?.files ?? []
+  const streamingFile = streamingFiles.find(f => STREAMING_FILE_PREFIX + f.filename === selectedFile)
+  const latestStreamingFilename = streamingFiles[streamingFiles.length - 1]?.filename
+  const issues = currentFile?.issues
+  const isRunning = execution?.status === 'running'
+  // Where the last failed run stopped, e.g. the innermost frame of a traceback
+  const runtimeError = execution?.status === 'error'
+    ? [...execution.output].reverse().find(line => line.stream === 'stderr' && line.location)
+    : undefined
+  const runnable = currentFile ? canRun(currentFile) : false
+  const canEdit = can(sessionRole, 'edit')
+  const canRunFiles = can(sessionRole, 'run')
+  const tabFiles = useMemo(() => openTabs
+    .map(id => codeFiles.find(f => f.id === id))
+    .filter((file): file is CodeFile => file !== undefined), [openTabs, codeFiles])
+  // People who may edit work on the open file together; the shared document
+  // owns the editor's content and saves itself
+  const collaboration = useCollaboration(canEdit ? currentFile : undefined, editorInstance)
+
+  const openFile = useCallback((fileId: string, { replace = false }: { replace?: boolean } = {}) => {
+    setStreamingSelection(null)
+    if (sessionId) navigate(sessionPath(sessionId, 'code', fileId), { replace })
+  }, [sessionId, navigate])
+
+  // Follow a generation while it streams...
+  useEffect(() => {
+    // ...unless that would leave edits that are not saved yet
+    if (latestStreamingFilename && !collaboration.unsaved) {
+      wasStreaming.current = true
+      setStreamingSelection((selected) =>
+        selected !== null || routeFileId === null
+          ? STREAMING_FILE_PREFIX + latestStreamingFilename
+          : selected
+      )
+    }
+  }, [latestStreamingFilename, collaboration.unsaved, routeFileId])
+
+  // ...then switch to the saved file
+  useEffect(() => {
+    if (generation || !wasStreaming.current) return
+    wasStreaming.current = false
+    if (!streamingSelection) return
+
+    const filename = streamingSelection.slice(STREAMING_FILE_PREFIX.length)
+    const fileId = codeFiles.find(f => f.filename === filename)?.id ?? codeFiles[0]?.id
+    setStreamingSelection(null)
+    if (fileId) openFile(fileId, { replace: true })
+  }, [generation, streamingSelection, codeFiles, openFile])
+
+  const currentFileId = currentFile?.id ?? null
+  const othersOnline = presence.filter(p => p.userId !== user?.id)
+
+  // Tabs belong to a session
+  useEffect(() => {
+    setOpenTabs([])
+  }, [sessionId])
+
+  useEffect(() => {
+    if (routeFileId) setOpenTabs(tabs => tabs.includes(routeFileId) ? tabs : [...tabs, routeFileId])
+  }, [routeFileId])
+
+  // Closing the open file saves it, like switching to another one
+  const closeTab = (fileId: string) => {
+    const index = tabFiles.findIndex(f => f.id === fileId)
+    const remaining = tabFiles.filter(f => f.id !== fileId)
+    setOpenTabs(remaining.map(f => f.id))
+    if (fileId !== routeFileId) return
+
+    const next = remaining[Math.min(index, remaining.length - 1)]
+    if (next) openFile(next.id, { replace: true })
+    else if (sessionId) navigate(sessionPath(sessionId, 'code'), { replace: true })
+  }
+
+  // Move on to another file when the open one is deleted, here or by
+  // someone else
+  const lastOpenFile = useRef<{ id: string, filename: string } | null>(null)
+  useEffect(() => {
+    if (currentFile) {
+      lastOpenFile.current = currentFile
+      return
+    }
+
+    const deleted = lastOpenFile.current
+    if (!deleted || deleted.id !== routeFileId) return
+    lastOpenFile.current = null
+    if (collaboration.unsaved) {
+      toast.error(`${deleted.filename} was deleted while you were editing it`)
+    }
+    const next = tabFiles[0] ?? codeFiles[0]
+    if (next) openFile(next.id, { replace: true })
+    else if (sessionId) navigate(sessionPath(sessionId, 'code'), { replace: true })
+  }, [currentFile, routeFileId, collaboration.unsaved, tabFiles, codeFiles, openFile, sessionId, navigate])
+
+  // Closing the page cannot wait for a save, so ask first
+  useEffect(() => {
+    if (!collaboration.unsaved) return
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [collaboration.unsaved])
+
+  // Share which file is open, and that none is once the editor closes
+  useEffect(() => {
+    updatePresence({ fileId: currentFileId })
+  }, [currentFileId, updatePresence])
+
+  useEffect(() => () => updatePresence({ fileId: null }), [updatePresence])
+
+  useEffect(() => {
+    if (!editorInstance || !currentFileId) return
+    const listener = editorInstance.onDidChangeCursorSelection(({ selection }) => {
+      broadcastCursor(currentFileId, {
+        startLine: selection.selectionStartLineNumber,
+        startColumn: selection.selectionStartColumn,
+        endLine: selection.positionLineNumber,
+        endColumn: selection.positionColumn,
+      })
+    })
+    return () => listener.dispose()
+  }, [editorInstance, currentFileId, broadcastCursor])
+
+  // Draw other people's cursors and selections in this file
+  useEffect(() => {
+    const monaco = monacoRef.current
+    if (!monaco || !editorInstance || !currentFileId) return
+
+    const decorations = remoteCursors
+      .filter(cursor => cursor.fileId === currentFileId && cursor.userId !== user?.id)
+      .flatMap(({ userId, name, selection }) => {
+        const color = presenceColorIndex(userId)
+        const { startLine, startColumn, endLine, endColumn } = selection
+        return [
+          {
+            range: new monaco.Selection(startLine, startColumn, endLine, endColumn),
+            options: { className: `remote-selection-${color}`, hoverMessage: { value: name } }
+          },
+          {
+            range: new monaco.Range(endLine, endColumn, endLine, endColumn),
+            options: {
+              beforeContentClassName: `remote-cursor-${color}`,
+              stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+            }
+          }
+        ]
+      })
+
+    const collection = editorInstance.createDecorationsCollection(decorations)
+    return () => collection.clear()
+  }, [editorInstance, remoteCursors, currentFileId, user?.id])
+
+  // Show the stored analysis as squiggles in the editor
+  useEffect(() => {
+    const monaco = monacoRef.current
+    const model = editorInstance?.getModel()
+    if (!monaco || !model) return
+
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    }
 
-  const handleDownload = () => {
-    if (!codeFiles.length) return
-
-    // Create a simple zip-like structure
-    const files = codeFiles.map(file => ({
-      name: file.filename,
-      content: file.content
-    }))
-
-    // Create a blob with all files
-    const fileContents = files.map(file => 
-      `// File: ${file.name}\n${file.content}\n\n${'='.repeat(50)}\n\n`
-    ).join('')
-
-    const blob = new Blob([fileContents], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${currentSession?.name || 'project'}-files.txt`
-    a.click()
-    URL.revokeObjectURL(url)
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, (issues ?? []).map(issue => ({
+      severity: severities[issue.severity],
+      message: issue.suggestedFix ? `${issue.message}\nFix: ${issue.suggestedFix}` : issue.message,
+      code: issue.ruleId,
+      source: issue.source === 'llm' ? 'model review' : 'analyzer',
+      startLineNumber: issue.line,
+      startColumn: issue.column,
+      endLineNumber: issue.endLine,
+      endColumn: issue.endColumn,
+    })))
+  }, [editorInstance, issues, selectedFile])
+
+  useEffect(() => {
+    const monaco = monacoRef.current
+    const model = editorInstance?.getModel()
+    if (!monaco || !model) return
+
+    const location = runtimeError?.location
+    monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, location && location.filename === currentFile?.filename
+      ? [{
+          severity: monaco.MarkerSeverity.Error,
+          message: runtimeError.text,
+          source: 'runtime',
+          startLineNumber: location.line,
+          startColumn: 1,
+          endLineNumber: location.line,
+          endColumn: model.getLineMaxColumn(Math.min(location.line, model.getLineCount())),
+        }]
+      : [])
+  }, [editorInstance, runtimeError, currentFile?.filename])
+
+  // Jump to a line once the file opened from the output panel is showing
+  useEffect(() => {
+    if (!editorInstance || !pendingReveal || pendingReveal.fileId !== currentFile?.id) return
+    editorInstance.revealLineInCenter(pendingReveal.line)
+    editorInstance.setPosition({ lineNumber: pendingReveal.line, column: 1 })
+    editorInstance.focus()
+    setPendingReveal(null)
+  }, [editorInstance, pendingReveal, currentFile?.id])
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    monacoRef.current = monaco
+    setEditorInstance(editor)
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => saveRef.current())
   }
 
-  const handleEdit = () => {
+  const handleSelectIssue = (issue: CodeIssue) => {
+    if (!editorInstance) return
+    editorInstance.revealLineInCenter(issue.line)
+    editorInstance.setSelection({
+      startLineNumber: issue.line,
+      startColumn: issue.column,
+      endLineNumber: issue.endLine,
+      endColumn: issue.endColumn,
+    })
+    editorInstance.focus()
+  }
+
+  const handleOpenLocation = (location: SourceLocation) => {
+    const file = codeFiles.find(f => f.filename === location.filename)
+    if (!file) return
+    openFile(file.id)
+    setPendingReveal({ fileId: file.id, line: location.line })
+  }
+
+  const handleFixIssue = async (issue: CodeIssue) => {
     if (!currentFile) return
-    setEditedContent(currentFile.content)
-    setIsEditing(true)
+
+    setFixingIssue(issue)
+    try {
+      // Propose against the latest content, including edits not saved yet
+      await collaboration.flush()
+      const baseUpdatedAt = useAppStore.getState().codeFiles.find(f => f.id === currentFile.id)?.updated_at ?? currentFile.updated_at
+      const proposal = await proposeFix(currentFile.id, issue)
+      setFixProposal({ issue, proposal, baseUpdatedAt })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to propose a fix')
+    } finally {
+      setFixingIssue(null)
+    }
   }
 
-  const handleSave = async () => {
-    if (!currentFile || !editedContent.trim()) return
-    
+  const handleAcceptFix = async () => {
+    if (!fixProposal) return
+    const { proposal, baseUpdatedAt } = fixProposal
+
+    setIsApplyingFix(true)
     try {
-      await updateCodeFile(currentFile.id, editedContent)
-      setIsEditing(false)
-      toast.success('File updated successfully!')
+      await updateCodeFile(proposal.fileId, proposal.proposed, { expectedUpdatedAt: baseUpdatedAt })
+      await analyzeCodeFile(proposal.fileId)
+      setFixProposal(null)
+      toast.success('Fix applied')
     } catch (error) {
-      toast.error('Failed to update file')
+      if (error instanceof SaveConflictError) {
+        setFixProposal(null)
+        toast.error('The file changed after this fix was proposed. Ask for the fix again.')
+      } else {
+        toast.error('Failed to apply fix')
+      }
+    } finally {
+      setIsApplyingFix(false)
     }
   }
 
-  const handleCancelEdit = () => {
-    setIsEditing(false)
-    setEditedContent('')
+  const showImport = async (reading: Promise<ImportResult>) => {
+    try {
+      setImportResult(await reading)
+    } catch {
+      toast.error('Failed to read the files')
+    }
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canEdit || !e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDraggingFiles(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canEdit || !e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    setIsDraggingFiles(false)
+    showImport(readDroppedFiles(e.dataTransfer))
+  }
+
+  const handleImportPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])]
+    e.target.value = ''
+    if (files.length) showImport(readFileList(files))
+  }
+
+  // Changes save themselves; saving by hand also re-checks the file
+  const handleSave = async () => {
+    if (!currentFile || !canEdit) return
+
+    setIsSaving(true)
+    try {
+      await collaboration.flush()
+      toast.success('File saved')
+      // Refresh the health score and markers for the new content
+      analyzeCodeFile(currentFile.id).catch(() => toast.error('Failed to re-analyze file'))
+    } catch (error) {
+      // The changed file arrives over realtime and opens the merge dialog
+      toast.error(error instanceof SaveConflictError ? 'Someone else changed this file meanwhile' : 'Failed to save file')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+  saveRef.current = () => {
+    handleSave()
   }
 
   const handleCopyCode = async () => {
@@ -85,85 +432,18 @@ export function CodeEditor() {
 
   const handleRunCode = async () => {
     if (!currentFile) return
-    
-    setIsRunning(true)
-    
+
+    // Run the saved content, so edits in progress must be saved first
     try {
-      // Simulate code execution
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Create a simple output window
-      const outputWindow = window.open('', '_blank', 'width=800,height=600')
-      if (outputWindow) {
-        outputWindow.document.write(`
-          <html>
-            <head>
-              <title>Code Output - ${currentFile.filename}</title>
-              <style>
-                body { 
-                  font-family: 'Fira Code', monospace; 
-                  background: #1a1a1a; 
-                  color: #fff; 
-                  padding: 20px; 
-                  margin: 0;
-                }
-                .header { 
-                  border-bottom: 1px solid #333; 
-                  padding-bottom: 10px; 
-                  margin-bottom: 20px; 
-                }
-                .output { 
-                  background: #000; 
-                  padding: 15px; 
-                  border-radius: 8px; 
-                  white-space: pre-wrap; 
-                  font-size: 14px;
-                  line-height: 1.5;
-                }
-              </style>
-            </head>
-            <body>
-              <div class="header">
-                <h2>🚀 Code Execution Output</h2>
-                <p>File: ${currentFile.filename}</p>
-              </div>
-              <div class="output">
-                <div style="color: #4ade80;">✅ Code executed successfully!</div>
-                <div style="color: #94a3b8; margin-top: 10px;">
-                  Note: This is a simulated execution environment.
-                  In a real implementation, this would run your ${currentFile.language} code.
-                </div>
-                <div style="margin-top: 20px; color: #fbbf24;">
-                  📝 Generated Output:
-                  ${currentFile.language === 'javascript' ? 
-                    'console.log("Hello from CodexOrb!");' : 
-                    'print("Hello from CodexOrb!")'
-                  }
-                </div>
-              </div>
-            </body>
-          </html>
-        `)
-        outputWindow.document.close()
-      }
-      
-      toast.success('Code executed successfully!')
-    } catch (error) {
-      toast.error('Failed to execute code')
-    } finally {
-      setIsRunning(false)
+      await collaboration.flush()
+    } catch {
+      toast.error('Save your changes before running the file')
+      return
+    }
+    const result = await runCodeFile(currentFile.id, { stdin: showStdin ? stdin : undefined })
+    if (result?.status === 'timeout') {
+      toast.error('Execution stopped: time limit exceeded')
     }
-  }
-
-  const getHealthColor = (score: number) => {
-    if (score >= 80) return 'text-green-500'
-    if (score >= 60) return 'text-yellow-500'
-    return 'text-red-500'
-  }
-
-  const getHealthIcon = (score: number) => {
-    if (score >= 80) return CheckCircle
-    return AlertCircle
   }
 
   if (!currentSession) {
@@ -183,70 +463,159 @@ export function CodeEditor() {
   }
 
   return (
-    <div className="h-full flex">
+    <div
+      className="h-full flex relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* File Tree */}
       <div className="w-80 border-r border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 flex flex-col">
         <div className="h-16 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between px-4 flex-shrink-0">
           <h2 className="font-medium text-gray-900 dark:text-gray-100">Files</h2>
-          <button
-            onClick={handleDownload}
-            disabled={!codeFiles.length}
-            className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            title="Download project"
-          >
-            <Download className="w-4 h-4" />
-          </button>
+          <div className="flex items-center">
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => setNewFilePath('')}
+                  className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors"
+                  title="New file (use / for folders, e.g. src/routes/auth.js)"
+                >
+                  <FilePlus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors"
+                  title="Import files or a ZIP (or drop them here)"
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  multiple
+                  onChange={handleImportPicked}
+                  className="hidden"
+                />
+              </>
+            )}
+            <button
+              onClick={() => setShowExport(true)}
+              disabled={!codeFiles.length}
+              className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Export files as a ZIP"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            {canEdit && (
+              <button
+                onClick={() => setShowSaveTemplate(true)}
+                disabled={!codeFiles.length}
+                className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Save the session as a template"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+              </button>
+            )}
+          </div>
         </div>
         
         <div className="flex-1 overflow-y-auto scrollbar-thin p-4 space-y-1">
-          {codeFiles.length === 0 ? (
+          {streamingFiles.map((file) => (
+            <button
+              key={file.filename}
+              onClick={() => setStreamingSelection(STREAMING_FILE_PREFIX + file.filename)}
+              className={`w-full flex items-center space-x-3 px-3 py-3 text-sm rounded-lg transition-colors ${
+                selectedFile === STREAMING_FILE_PREFIX + file.filename
+                  ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {file.done ? (
+                <CheckCircle className="w-4 h-4 flex-shrink-0 text-gray-400" />
+              ) : (
+                <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+              )}
+              <div className="flex-1 text-left truncate">
+                <div className="truncate font-mono font-medium">{file.filename}</div>
+                <div className="text-xs text-gray-400 mt-1">{file.done ? 'Waiting for analysis...' : 'Generating...'}</div>
+              </div>
+            </button>
+          ))}
+
+          {codeFiles.length === 0 && streamingFiles.length === 0 && newFilePath === null ? (
             <div className="text-center py-8">
               <File className="w-8 h-8 text-gray-400 mx-auto mb-2" />
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 No files generated yet
               </p>
               <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                Start a conversation to generate code
+                {canEdit
+                  ? 'Start a conversation to generate code, or drop files, folders or a ZIP here'
+                  : 'Start a conversation to generate code'}
               </p>
             </div>
           ) : (
-            codeFiles.map((file) => {
-              const HealthIcon = getHealthIcon(file.health_score)
-              return (
-                <motion.button
-                  key={file.id}
-                  initial={{ opacity: 0, x: -10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  onClick={() => setSelectedFile(file.id)}
-                  className={`w-full flex items-center space-x-3 px-3 py-3 text-sm rounded-lg transition-colors ${
-                    selectedFile === file.id
-                      ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
-                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
-                  }`}
-                >
-                  <File className="w-4 h-4 flex-shrink-0" />
-                  <div className="flex-1 text-left truncate">
-                    <div className="truncate font-mono font-medium">{file.filename}</div>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <HealthIcon className={`w-3 h-3 ${getHealthColor(file.health_score)}`} />
-                      <span className={`text-xs ${getHealthColor(file.health_score)}`}>
-                        {file.health_score.toFixed(0)}%
-                      </span>
-                      <span className="text-xs text-gray-400">
-                        {file.language}
-                      </span>
-                    </div>
-                  </div>
-                </motion.button>
-              )
-            })
+            <FileTree
+              files={codeFiles}
+              selectedFileId={selectedFile}
+              viewers={othersOnline}
+              canEdit={canEdit}
+              newFilePath={newFilePath}
+              onNewFilePathChange={setNewFilePath}
+              onOpen={openFile}
+            />
           )}
         </div>
       </div>
       
       {/* Editor */}
-      <div className="flex-1 flex flex-col">
-        {currentFile ? (
+      <div className="flex-1 flex flex-col min-w-0">
+        {tabFiles.length > 0 && (
+          <EditorTabs
+            files={tabFiles}
+            activeFileId={currentFile?.id ?? null}
+            unsavedFileId={collaboration.unsaved ? currentFile?.id ?? null : null}
+            onSelect={(fileId) => openFile(fileId)}
+            onClose={closeTab}
+          />
+        )}
+        {streamingFile ? (
+          <>
+            <div className="h-16 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between px-6 flex-shrink-0">
+              <div className="flex items-center space-x-4">
+                <h2 className="font-medium text-gray-900 dark:text-gray-100 font-mono">
+                  {streamingFile.filename}
+                </h2>
+                <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>
+                    {!streamingFile.done ? 'Generating...' : generation?.stage === 'saving' ? 'Saving...' : 'Analyzing...'}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-hidden">
+              <Editor
+                height="100%"
+                language={streamingFile.language}
+                value={streamingFile.content}
+                theme={darkMode ? 'vs-dark' : 'light'}
+                options={{
+                  minimap: { enabled: false },
+                  fontSize: 14,
+                  fontFamily: 'Fira Code, Menlo, Monaco, monospace',
+                  readOnly: true,
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  wordWrap: 'on',
+                  lineNumbers: 'on'
+                }}
+              />
+            </div>
+          </>
+        ) : currentFile ? (
           <>
             <div className="h-16 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between px-6 flex-shrink-0">
               <div className="flex items-center space-x-4">
@@ -265,45 +634,77 @@ export function CodeEditor() {
                     Health: {currentFile.health_score.toFixed(0)}%
                   </span>
                 </div>
+                {canEdit && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {collaboration.unsaved ? 'Unsaved changes' : 'All changes saved'}
+                  </span>
+                )}
               </div>
               
               <div className="flex items-center space-x-2">
-                {isEditing ? (
+                {canEdit && (
                   <>
+                    {collaboration.peers.length > 1 && (
+                      <span
+                        className="flex items-center space-x-1 px-2 text-sm text-gray-600 dark:text-gray-400"
+                        title="People editing this file right now"
+                      >
+                        <Users className="w-4 h-4" />
+                        <span>{collaboration.peers.length} editing</span>
+                      </span>
+                    )}
                     <button
-                      onClick={handleSave}
-                      className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
+                      onClick={() => handleSave()}
+                      disabled={isSaving}
+                      className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors text-sm"
+                      title="Save now and re-check the file (Ctrl+S)"
                     >
-                      <Save className="w-4 h-4" />
+                      {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
                       <span>Save</span>
                     </button>
-                    <button
-                      onClick={handleCancelEdit}
-                      className="flex items-center space-x-2 px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
-                    >
-                      <X className="w-4 h-4" />
-                      <span>Cancel</span>
-                    </button>
                   </>
-                ) : (
+                )}
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="flex items-center space-x-2 px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                  title="Show version history"
+                >
+                  <History className="w-4 h-4" />
+                  <span>History</span>
+                </button>
+                <button
+                  onClick={handleCopyCode}
+                  className="flex items-center space-x-2 px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copy</span>
+                </button>
+                <button
+                  onClick={() => downloadFile(currentFile)}
+                  className="flex items-center space-x-2 px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                  title={`Download ${currentFile.filename}`}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                {canRunFiles && (
                   <>
                     <button
-                      onClick={handleEdit}
-                      className="flex items-center space-x-2 px-3 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm"
+                      onClick={() => setShowStdin(!showStdin)}
+                      disabled={!runnable}
+                      className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors text-sm disabled:opacity-50 ${
+                        showStdin
+                          ? 'bg-gray-700 text-white'
+                          : 'bg-gray-200 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-700'
+                      }`}
+                      title="Text passed to the program's standard input"
                     >
-                      <Edit3 className="w-4 h-4" />
-                      <span>Edit</span>
-                    </button>
-                    <button
-                      onClick={handleCopyCode}
-                      className="flex items-center space-x-2 px-3 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
-                    >
-                      <Copy className="w-4 h-4" />
-                      <span>Copy</span>
+                      <Keyboard className="w-4 h-4" />
+                      <span>Input</span>
                     </button>
                     <button
                       onClick={handleRunCode}
-                      disabled={isRunning}
+                      disabled={isRunning || !runnable}
+                      title={runnable ? 'Run in the browser sandbox' : `Running ${currentFile.language} files is not supported yet`}
                       className="flex items-center space-x-2 px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors text-sm"
                     >
                       {isRunning ? (
@@ -322,14 +723,17 @@ export function CodeEditor() {
               <Editor
                 height="100%"
                 language={currentFile.language}
-                value={isEditing ? editedContent : currentFile.content}
-                onChange={(value) => isEditing && setEditedContent(value || '')}
+                // One model per file keeps each tab's undo history and scroll position
+                path={currentFile.id}
+                defaultValue={currentFile.content}
+                value={canEdit ? undefined : currentFile.content}
+                onMount={handleEditorMount}
                 theme={darkMode ? 'vs-dark' : 'light'}
                 options={{
                   minimap: { enabled: true },
                   fontSize: 14,
                   fontFamily: 'Fira Code, Menlo, Monaco, monospace',
-                  readOnly: !isEditing,
+                  readOnly: !canEdit,
                   scrollBeyondLastLine: false,
                   automaticLayout: true,
                   wordWrap: 'on',
@@ -350,6 +754,82 @@ export function CodeEditor() {
                 }}
               />
             </div>
+
+            {showStdin && canRunFiles && (
+              <div className="border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 px-4 py-2 flex-shrink-0">
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Standard input (read line by line by input(), then end of file)
+                </label>
+                <textarea
+                  value={stdin}
+                  onChange={(e) => setStdin(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 font-mono text-xs rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-950 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-y"
+                  placeholder="One value per line"
+                />
+              </div>
+            )}
+
+            {execution && execution.fileId === currentFile.id && (
+              <RunOutputPanel
+                filename={execution.filename}
+                status={execution.status}
+                output={execution.output}
+                durationMs={execution.durationMs}
+                onClose={clearExecution}
+                onOpenLocation={handleOpenLocation}
+              />
+            )}
+
+            <ProblemsPanel
+              issues={currentFile.issues ?? []}
+              onSelect={handleSelectIssue}
+              onFix={canEdit ? handleFixIssue : undefined}
+              fixingIssue={fixingIssue}
+            />
+
+            {showHistory && (
+              <FileHistory
+                fileId={currentFile.id}
+                filename={currentFile.filename}
+                language={currentFile.language}
+                canRestore={canEdit}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+
+            {fixProposal && fixProposal.proposal.fileId === currentFile.id && (
+              <FixPreview
+                filename={currentFile.filename}
+                language={currentFile.language}
+                issue={fixProposal.issue}
+                proposal={fixProposal.proposal}
+                currentScore={currentFile.health_score}
+                darkMode={darkMode}
+                isApplying={isApplyingFix}
+                onAccept={handleAcceptFix}
+                onDiscard={() => setFixProposal(null)}
+              />
+            )}
+
+            {collaboration.conflict && (
+              <MergeDialog
+                filename={currentFile.filename}
+                language={currentFile.language}
+                theirs={collaboration.conflict.theirs}
+                mine={collaboration.conflict.mine}
+                darkMode={darkMode}
+                onKeepTheirs={() => collaboration.resolveConflict(null)}
+                onSave={async (merged) => {
+                  try {
+                    await collaboration.resolveConflict(merged)
+                    toast.success('Merged version saved')
+                  } catch {
+                    toast.error('Failed to save the merged version')
+                  }
+                }}
+              />
+            )}
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center">
@@ -365,6 +845,20 @@ export function CodeEditor() {
           </div>
         )}
       </div>
+
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-primary-500/10 border-2 border-dashed border-primary-500 rounded-lg pointer-events-none">
+          <div className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-white dark:bg-gray-800 text-primary-600 dark:text-primary-400 shadow">
+            <Upload className="w-4 h-4" />
+            <span>Drop files, folders or a ZIP to import them</span>
+          </div>
+        </div>
+      )}
+
+      {showExport && <ExportDialog onClose={() => setShowExport(false)} />}
+      {showSaveTemplate && <SaveTemplateDialog onClose={() => setShowSaveTemplate(false)} />}
+
+      {importResult && <ImportDialog result={importResult} onClose={() => setImportResult(null)} />}
     </div>
   )
 }
\ No newline at end of file
@@ -7,17 +7,21 @@ import {
   Users, 
   Clock,
   Code,
-  Bug
+  Bug,
+  Languages
 } from 'lucide-react'
 import { useAppStore } from '../store/useAppStore'
+import { languageLabel } from '../lib/languages'
 import { motion } from 'framer-motion'
 
 export function Dashboard() {
   const { codeFiles, messages, currentSession } = useAppStore()
 
+  const lineCount = (content: string) => content.split('\n').length
+
   const stats = {
     totalFiles: codeFiles.length,
-    totalLines: codeFiles.reduce((sum, file) => sum + file.content.split('\n').length, 0),
+    totalLines: codeFiles.reduce((sum, file) => sum + lineCount(file.content), 0),
     averageHealth: codeFiles.length > 0 
       ? codeFiles.reduce((sum, file) => sum + file.health_score, 0) / codeFiles.length 
       : 0,
@@ -28,6 +32,18 @@ export function Dashboard() {
     aiMessages: messages.filter(msg => msg.type === 'ai').length
   }
 
+  // Sessions can mix languages, so files are also counted per language,
+  // largest first
+  const languageStats = Object.values(
+    codeFiles.reduce<Record<string, { language: string, files: number, lines: number, health: number }>>((acc, file) => {
+      const entry = acc[file.language] || (acc[file.language] = { language: file.language, files: 0, lines: 0, health: 0 })
+      entry.files++
+      entry.lines += lineCount(file.content)
+      entry.health += file.health_score
+      return acc
+    }, {})
+  ).sort((a, b) => b.lines - a.lines)
+
   const StatCard = ({ title, value, icon: Icon, color = 'text-gray-900 dark:text-gray-100' }: any) => (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -168,16 +184,61 @@ export function Dashboard() {
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
                   <Clock className="w-5 h-5 text-gray-500" />
-                  <span className="text-gray-700 dark:text-gray-300">Language</span>
+                  <span className="text-gray-700 dark:text-gray-300">Default Language</span>
                 </div>
-                <span className="font-semibold text-gray-900 dark:text-gray-100 capitalize">
-                  {currentSession.language}
+                <span className="font-semibold text-gray-900 dark:text-gray-100">
+                  {languageLabel(currentSession.language)}
                 </span>
               </div>
             </div>
           </motion.div>
         </div>
 
+        {/* Language Breakdown */}
+        {languageStats.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white dark:bg-gray-800 rounded-xl p-6 border border-gray-200 dark:border-gray-700 mb-8"
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <Languages className="w-5 h-5 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                Languages
+              </h3>
+            </div>
+            <div className="space-y-4">
+              {languageStats.map((entry) => {
+                const averageHealth = entry.health / entry.files
+                return (
+                  <div key={entry.language}>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-gray-700 dark:text-gray-300">{languageLabel(entry.language)}</span>
+                      <div className="flex items-center space-x-4 text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">
+                          {entry.files} file{entry.files !== 1 ? 's' : ''} · {entry.lines.toLocaleString()} lines
+                        </span>
+                        <span className={`font-semibold ${
+                          averageHealth >= 80 ? 'text-green-500' :
+                          averageHealth >= 60 ? 'text-yellow-500' : 'text-red-500'
+                        }`}>
+                          {averageHealth.toFixed(0)}%
+                        </span>
+                      </div>
+                    </div>
+                    <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-primary-500"
+                        style={{ width: `${(entry.lines / stats.totalLines) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </motion.div>
+        )}
+
         {/* File List */}
         {codeFiles.length > 0 && (
           <motion.div
@@ -196,6 +257,9 @@ export function Dashboard() {
                     <span className="text-gray-900 dark:text-gray-100 font-mono text-sm">
                       {file.filename}
                     </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {languageLabel(file.language)}
+                    </span>
                   </div>
                   <div className="flex items-center space-x-2">
                     <div className={`w-2 h-2 rounded-full ${
@@ -0,0 +1,57 @@
+import { X } from 'lucide-react'
+import type { CodeFile } from '../store/useAppStore'
+import { basename } from '../lib/fileTree'
+
+interface EditorTabsProps {
+  files: CodeFile[]
+  activeFileId: string | null
+  // Only the open file can have unsaved changes: leaving a file saves it
+  unsavedFileId: string | null
+  onSelect: (fileId: string) => void
+  onClose: (fileId: string) => void
+}
+
+export function EditorTabs({ files, activeFileId, unsavedFileId, onSelect, onClose }: EditorTabsProps) {
+  return (
+    <div className="h-10 flex overflow-x-auto scrollbar-thin border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 flex-shrink-0">
+      {files.map((file) => {
+        const isActive = file.id === activeFileId
+        const isUnsaved = file.id === unsavedFileId
+        return (
+          <div
+            key={file.id}
+            onClick={() => onSelect(file.id)}
+            onAuxClick={(e) => {
+              if (e.button === 1) onClose(file.id)
+            }}
+            className={`group flex items-center space-x-2 pl-3 pr-2 text-sm border-r border-gray-200 dark:border-gray-800 cursor-pointer flex-shrink-0 transition-colors ${
+              isActive
+                ? 'bg-white dark:bg-gray-950 text-gray-900 dark:text-gray-100'
+                : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+            title={isUnsaved ? `${file.filename} (unsaved changes)` : file.filename}
+          >
+            <span className="font-mono truncate max-w-[12rem]">{basename(file.filename)}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onClose(file.id)
+              }}
+              className="w-5 h-5 flex items-center justify-center rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+              title={isUnsaved ? 'Save and close' : 'Close'}
+            >
+              {isUnsaved ? (
+                <>
+                  <span className="w-2 h-2 rounded-full bg-primary-500 group-hover:hidden" />
+                  <X className="w-3.5 h-3.5 hidden group-hover:block" />
+                </>
+              ) : (
+                <X className={`w-3.5 h-3.5 ${isActive ? '' : 'invisible group-hover:visible'}`} />
+              )}
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
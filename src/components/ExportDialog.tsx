@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react'
+import { Download, FileArchive, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore } from '../store/useAppStore'
+import { downloadProjectArchive, inferManifests } from '../lib/export'
+
+interface ExportDialogProps {
+  onClose: () => void
+}
+
+export function ExportDialog({ onClose }: ExportDialogProps) {
+  const { currentSession, codeFiles } = useAppStore()
+  const [selected, setSelected] = useState(() => new Set(codeFiles.map(f => f.id)))
+  const [includeManifest, setIncludeManifest] = useState(true)
+  const [includeReadme, setIncludeReadme] = useState(true)
+
+  const files = useMemo(
+    () => [...codeFiles]
+      .filter(f => selected.has(f.id))
+      .sort((a, b) => a.filename.localeCompare(b.filename)),
+    [codeFiles, selected]
+  )
+  const manifests = useMemo(
+    () => currentSession && includeManifest ? inferManifests(currentSession, files) : [],
+    [currentSession, includeManifest, files]
+  )
+
+  if (!currentSession) return null
+
+  const allSelected = selected.size === codeFiles.length
+
+  const toggleFile = (fileId: string) => {
+    const next = new Set(selected)
+    if (next.has(fileId)) next.delete(fileId)
+    else next.add(fileId)
+    setSelected(next)
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(codeFiles.map(f => f.id)))
+  }
+
+  const handleExport = () => {
+    try {
+      downloadProjectArchive(currentSession, files, { manifest: includeManifest, readme: includeReadme })
+      onClose()
+    } catch {
+      toast.error('Failed to export project')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl p-6 w-full max-w-md"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <FileArchive className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Export Project
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Files
+              </label>
+              <button
+                onClick={toggleAll}
+                className="text-xs text-primary-500 hover:text-primary-600"
+              >
+                {allSelected ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <ul className="max-h-64 overflow-y-auto scrollbar-thin space-y-1">
+              {[...codeFiles].sort((a, b) => a.filename.localeCompare(b.filename)).map((file) => (
+                <li key={file.id}>
+                  <label className="flex items-center space-x-2 px-2 py-1 rounded-lg text-sm hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(file.id)}
+                      onChange={() => toggleFile(file.id)}
+                      className="rounded border-gray-300 dark:border-gray-600 text-primary-500 focus:ring-primary-500"
+                    />
+                    <span className="flex-1 truncate font-mono text-gray-900 dark:text-gray-100">{file.filename}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-start space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeManifest}
+                onChange={(e) => setIncludeManifest(e.target.checked)}
+                className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-primary-500 focus:ring-primary-500"
+              />
+              <span>
+                Add dependency manifest
+                {manifests.length > 0 && (
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {manifests.map(m => m.filename).join(', ')}, inferred from imports
+                  </span>
+                )}
+              </span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeReadme}
+                onChange={(e) => setIncludeReadme(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-primary-500 focus:ring-primary-500"
+              />
+              <span>Add README summarising the session</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={files.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download {files.length === codeFiles.length ? 'all' : files.length} {files.length === 1 ? 'file' : 'files'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { History, X, Loader2, RotateCcw, Bot, User } from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore, type CodeFileVersion } from '../store/useAppStore'
+
+interface FileHistoryProps {
+  fileId: string
+  filename: string
+  language: string
+  // Restoring changes the file, which not every role may do
+  canRestore: boolean
+  onClose: () => void
+}
+
+export function FileHistory({ fileId, filename, language, canRestore, onClose }: FileHistoryProps) {
+  const { user, darkMode, loadFileVersions, restoreFileVersion } = useAppStore()
+  const [versions, setVersions] = useState<CodeFileVersion[] | null>(null)
+  // The diff shows `baseId` on the left and `selectedId` on the right
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadFileVersions(fileId)
+      .then((loaded) => {
+        if (cancelled) return
+        setVersions(loaded)
+        setSelectedId(loaded[0]?.id ?? null)
+        setBaseId(loaded[1]?.id ?? null)
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load file history')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [fileId, loadFileVersions])
+
+  const selected = versions?.find(v => v.id === selectedId)
+  const base = versions?.find(v => v.id === baseId)
+  const latest = versions?.[0]
+
+  const handleSelect = (version: CodeFileVersion) => {
+    setSelectedId(version.id)
+    // Default to comparing with the version just before it
+    const index = versions!.indexOf(version)
+    setBaseId(versions![index + 1]?.id ?? null)
+  }
+
+  const handleRestore = async () => {
+    if (!selected) return
+
+    setIsRestoring(true)
+    try {
+      await restoreFileVersion(selected)
+      toast.success(`Restored version ${selected.version}`)
+      onClose()
+    } catch {
+      toast.error('Failed to restore version')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const authorLabel = (version: CodeFileVersion) => {
+    if (version.source === 'ai') return 'AI'
+    if (version.author_id && version.author_id === user?.id) return 'You'
+    return 'Collaborator'
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <History className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              History of <span className="font-mono">{filename}</span>
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close history"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Version list */}
+          <div className="w-72 border-r border-gray-200 dark:border-gray-700 overflow-y-auto scrollbar-thin p-3 space-y-1">
+            {versions === null ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                No history recorded yet
+              </p>
+            ) : (
+              versions.map((version) => {
+                const AuthorIcon = version.source === 'ai' ? Bot : User
+                return (
+                  <button
+                    key={version.id}
+                    onClick={() => handleSelect(version)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      version.id === selectedId
+                        ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        Version {version.version}
+                        {version.id === latest?.id && <span className="ml-2 text-xs text-gray-400">current</span>}
+                      </span>
+                      <span className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+                        <AuthorIcon className="w-3 h-3" />
+                        <span>{authorLabel(version)}</span>
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      {new Date(version.created_at).toLocaleString()}
+                    </div>
+                    {version.prompt && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate" title={version.prompt}>
+                        “{version.prompt}”
+                      </div>
+                    )}
+                  </button>
+                )
+              })
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col">
+            {selected ? (
+              <>
+                <div className="h-12 px-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                    <span>Compare</span>
+                    <select
+                      value={baseId ?? ''}
+                      onChange={(e) => setBaseId(e.target.value || null)}
+                      className="px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                    >
+                      <option value="">Empty file</option>
+                      {versions!.filter(v => v.id !== selected.id).map(v => (
+                        <option key={v.id} value={v.id}>Version {v.version}</option>
+                      ))}
+                    </select>
+                    <span>with version {selected.version}</span>
+                  </div>
+                  {canRestore && (
+                    <button
+                      onClick={handleRestore}
+                      disabled={isRestoring || selected.id === latest?.id}
+                      className="flex items-center space-x-2 px-3 py-1.5 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 transition-colors"
+                      title={selected.id === latest?.id ? 'This is the current version' : `Make version ${selected.version} the current content`}
+                    >
+                      {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-hidden">
+                  <DiffEditor
+                    height="100%"
+                    language={language}
+                    original={base?.content ?? ''}
+                    modified={selected.content}
+                    theme={darkMode ? 'vs-dark' : 'light'}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      fontFamily: 'Fira Code, Menlo, Monaco, monospace',
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true
+                    }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                Select a version to see its changes
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
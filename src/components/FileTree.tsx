@@ -0,0 +1,431 @@
+import { useMemo, useState } from 'react'
+import {
+  File,
+  Folder,
+  FolderOpen,
+  ChevronRight,
+  ChevronDown,
+  FilePlus,
+  Pencil,
+  Trash2,
+  Copy,
+  CheckCircle,
+  AlertCircle
+} from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore, type CodeFile, type ParticipantPresence } from '../store/useAppStore'
+import { basename, buildFileTree, isInFolder, joinPath, normalizePath, pathError, type TreeFolder } from '../lib/fileTree'
+import { PresenceAvatars } from './PresenceAvatars'
+
+interface FileTreeProps {
+  files: CodeFile[]
+  selectedFileId: string | null
+  // Other people online, shown next to the file they have open
+  viewers: ParticipantPresence[]
+  canEdit: boolean
+  // Path typed into the new file row, or null while it is hidden
+  newFilePath: string | null
+  onNewFilePathChange: (path: string | null) => void
+  onOpen: (fileId: string) => void
+}
+
+// A file or folder being renamed, deleted or dragged
+type TreeItem = { kind: 'file', file: CodeFile } | { kind: 'folder', path: string }
+
+// Drag data for moving items within the tree, distinct from files dropped
+// from outside the browser
+const TREE_DRAG_TYPE = 'application/x-codexorb-tree-item'
+
+const INDENT_PX = 12
+
+const itemKey = (item: TreeItem) => item.kind === 'file' ? item.file.id : `folder:${item.path}`
+const itemPath = (item: TreeItem) => item.kind === 'file' ? item.file.filename : item.path
+
+const getHealthColor = (score: number) => {
+  if (score >= 80) return 'text-green-500'
+  if (score >= 60) return 'text-yellow-500'
+  return 'text-red-500'
+}
+
+const getHealthIcon = (score: number) => {
+  if (score >= 80) return CheckCircle
+  return AlertCircle
+}
+
+export function FileTree({
+  files,
+  selectedFileId,
+  viewers,
+  canEdit,
+  newFilePath,
+  onNewFilePathChange,
+  onOpen
+}: FileTreeProps) {
+  const { createCodeFile, duplicateCodeFile, renameCodeFile, renameFolder, deleteCodeFiles } = useAppStore()
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [renaming, setRenaming] = useState<{ item: TreeItem, value: string } | null>(null)
+  const [deleting, setDeleting] = useState<TreeItem | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const tree = useMemo(() => buildFileTree(files), [files])
+
+  const filesIn = (folder: string) => files.filter(f => isInFolder(f.filename, folder))
+
+  // Why `item` cannot move to `path`, checked against every file that stays put
+  const moveError = (item: TreeItem, path: string) => {
+    const target = normalizePath(path)
+    if (item.kind === 'file') {
+      return pathError(target, files.filter(f => f.id !== item.file.id).map(f => f.filename))
+    }
+
+    if (!target) return 'Enter a folder name'
+    if (isInFolder(target, item.path)) return 'A folder cannot be moved into itself'
+    const staying = files.filter(f => !isInFolder(f.filename, item.path)).map(f => f.filename)
+    for (const file of filesIn(item.path)) {
+      const error = pathError(joinPath(target, file.filename.slice(item.path.length + 1)), staying)
+      if (error) return error
+    }
+    return null
+  }
+
+  const move = async (item: TreeItem, path: string) => {
+    const target = normalizePath(path)
+    if (target === itemPath(item)) return true
+
+    const error = moveError(item, target)
+    if (error) {
+      toast.error(error)
+      return false
+    }
+
+    setIsBusy(true)
+    try {
+      if (item.kind === 'file') {
+        await renameCodeFile(item.file.id, target)
+      } else {
+        await renameFolder(item.path, target)
+        setCollapsed(new Set([...collapsed].map(p => isInFolder(p, item.path) || p === item.path
+          ? target + p.slice(item.path.length)
+          : p)))
+      }
+      return true
+    } catch {
+      toast.error(`Failed to move ${itemPath(item)}`)
+      return false
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (newFilePath === null) return
+
+    const error = pathError(newFilePath, files.map(f => f.filename))
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setIsBusy(true)
+    try {
+      const file = await createCodeFile(newFilePath)
+      onNewFilePathChange(null)
+      onOpen(file.id)
+    } catch {
+      toast.error('Failed to create file')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDuplicate = async (file: CodeFile) => {
+    setIsBusy(true)
+    try {
+      const copy = await duplicateCodeFile(file.id)
+      onOpen(copy.id)
+    } catch {
+      toast.error(`Failed to duplicate ${file.filename}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRename = async () => {
+    if (!renaming) return
+    if (await move(renaming.item, renaming.value)) setRenaming(null)
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    const ids = deleting.kind === 'file' ? [deleting.file.id] : filesIn(deleting.path).map(f => f.id)
+    setIsBusy(true)
+    try {
+      await deleteCodeFiles(ids)
+      toast.success(`Deleted ${itemPath(deleting)}`)
+      setDeleting(null)
+    } catch {
+      toast.error(`Failed to delete ${itemPath(deleting)}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const toggleFolder = (path: string) => {
+    const next = new Set(collapsed)
+    if (next.has(path)) next.delete(path)
+    else next.add(path)
+    setCollapsed(next)
+  }
+
+  const dragProps = (item: TreeItem) => canEdit ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData(TREE_DRAG_TYPE, itemKey(item))
+      e.dataTransfer.effectAllowed = 'move'
+    }
+  } : {}
+
+  const findItem = (key: string): TreeItem | null => {
+    if (key.startsWith('folder:')) return { kind: 'folder', path: key.slice('folder:'.length) }
+    const file = files.find(f => f.id === key)
+    return file ? { kind: 'file', file } : null
+  }
+
+  // Folders, and the tree itself for the root, accept dragged items
+  const dropProps = (folder: string) => canEdit ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(TREE_DRAG_TYPE)) return
+      e.preventDefault()
+      e.stopPropagation()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(folder)
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null)
+    },
+    onDrop: (e: React.DragEvent) => {
+      const item = findItem(e.dataTransfer.getData(TREE_DRAG_TYPE))
+      if (!item) return
+      e.preventDefault()
+      e.stopPropagation()
+      setDropTarget(null)
+      const name = item.kind === 'file' ? basename(item.file.filename) : basename(item.path)
+      move(item, joinPath(folder, name))
+    }
+  } : {}
+
+  const renameInput = (depth: number) => renaming && (
+    <input
+      autoFocus
+      value={renaming.value}
+      disabled={isBusy}
+      onChange={(e) => setRenaming({ ...renaming, value: e.target.value })}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') handleRename()
+        if (e.key === 'Escape') setRenaming(null)
+      }}
+      onBlur={() => setRenaming(null)}
+      style={{ marginLeft: depth * INDENT_PX }}
+      className="w-[calc(100%-1rem)] px-2 py-1.5 text-sm font-mono border border-primary-500 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none"
+    />
+  )
+
+  const deleteConfirmation = (item: TreeItem, depth: number) => {
+    const count = item.kind === 'folder' ? filesIn(item.path).length : 1
+    return (
+      <div
+        style={{ paddingLeft: depth * INDENT_PX + 12 }}
+        className="flex items-center justify-between space-x-2 pr-2 py-2 text-sm rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300"
+      >
+        <span className="truncate">
+          Delete {basename(itemPath(item))}{item.kind === 'folder' ? ` and ${count} ${count === 1 ? 'file' : 'files'}` : ''}?
+        </span>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          <button
+            onClick={handleDelete}
+            disabled={isBusy}
+            className="px-2 py-0.5 text-xs bg-red-500 text-white rounded-md hover:bg-red-600 disabled:opacity-50 transition-colors"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => setDeleting(null)}
+            className="px-2 py-0.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const itemActions = (item: TreeItem) => canEdit && (
+    <div className="hidden group-hover:flex items-center flex-shrink-0">
+      {item.kind === 'folder' && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onNewFilePathChange(`${item.path}/`)
+          }}
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+          title={`New file in ${item.path}`}
+        >
+          <FilePlus className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {item.kind === 'file' && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            handleDuplicate(item.file)
+          }}
+          disabled={isBusy}
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Duplicate"
+        >
+          <Copy className="w-3.5 h-3.5" />
+        </button>
+      )}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setRenaming({ item, value: itemPath(item) })
+        }}
+        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+        title="Rename or move"
+      >
+        <Pencil className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setDeleting(item)
+        }}
+        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-red-500"
+        title="Delete"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  )
+
+  const renderFile = (file: CodeFile, depth: number) => {
+    const item: TreeItem = { kind: 'file', file }
+    if (renaming && itemKey(renaming.item) === file.id) {
+      return <div key={file.id}>{renameInput(depth)}</div>
+    }
+    if (deleting && itemKey(deleting) === file.id) {
+      return <div key={file.id}>{deleteConfirmation(item, depth)}</div>
+    }
+
+    const HealthIcon = getHealthIcon(file.health_score)
+    const fileViewers = viewers.filter(p => p.fileId === file.id)
+    return (
+      <motion.div
+        key={file.id}
+        initial={{ opacity: 0, x: -10 }}
+        animate={{ opacity: 1, x: 0 }}
+      >
+        <div
+          onClick={() => onOpen(file.id)}
+          {...dragProps(item)}
+          style={{ paddingLeft: depth * INDENT_PX + 12 }}
+          className={`group w-full flex items-center space-x-3 pr-3 py-2 text-sm rounded-lg cursor-pointer transition-colors ${
+            selectedFileId === file.id
+              ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+          }`}
+          title={file.filename}
+        >
+          <File className="w-4 h-4 flex-shrink-0" />
+          <div className="flex-1 text-left truncate">
+            <div className="truncate font-mono font-medium">{basename(file.filename)}</div>
+            <div className="flex items-center space-x-2 mt-1">
+              <HealthIcon className={`w-3 h-3 ${getHealthColor(file.health_score)}`} />
+              <span className={`text-xs ${getHealthColor(file.health_score)}`}>
+                {file.health_score.toFixed(0)}%
+              </span>
+              <span className="text-xs text-gray-400">
+                {file.language}
+              </span>
+            </div>
+          </div>
+          {itemActions(item)}
+          <PresenceAvatars people={fileViewers} size="sm" max={3} />
+        </div>
+      </motion.div>
+    )
+  }
+
+  const renderFolder = (folder: TreeFolder<CodeFile>, depth: number): React.ReactNode => {
+    const item: TreeItem = { kind: 'folder', path: folder.path }
+    const isOpen = !collapsed.has(folder.path)
+    const key = itemKey(item)
+
+    let row: React.ReactNode
+    if (renaming && itemKey(renaming.item) === key) {
+      row = renameInput(depth)
+    } else if (deleting && itemKey(deleting) === key) {
+      row = deleteConfirmation(item, depth)
+    } else {
+      const FolderIcon = isOpen ? FolderOpen : Folder
+      const Chevron = isOpen ? ChevronDown : ChevronRight
+      row = (
+        <div
+          onClick={() => toggleFolder(folder.path)}
+          {...dragProps(item)}
+          style={{ paddingLeft: depth * INDENT_PX + 4 }}
+          className={`group w-full flex items-center space-x-1 pr-3 py-1.5 text-sm rounded-lg cursor-pointer transition-colors text-gray-700 dark:text-gray-300 ${
+            dropTarget === folder.path ? 'bg-primary-100 dark:bg-primary-900/30' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+          }`}
+          title={folder.path}
+        >
+          <Chevron className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+          <FolderIcon className="w-4 h-4 flex-shrink-0 text-primary-500" />
+          <span className="flex-1 truncate font-mono">{folder.name}</span>
+          {itemActions(item)}
+        </div>
+      )
+    }
+
+    return (
+      <div key={key} {...dropProps(folder.path)}>
+        {row}
+        {isOpen && (
+          <div className="space-y-1 mt-1">
+            {folder.folders.map(child => renderFolder(child, depth + 1))}
+            {folder.files.map(file => renderFile(file, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      {...dropProps('')}
+      className={`space-y-1 min-h-full rounded-lg ${dropTarget === '' ? 'bg-primary-50 dark:bg-primary-900/10' : ''}`}
+    >
+      {newFilePath !== null && (
+        <input
+          autoFocus
+          value={newFilePath}
+          disabled={isBusy}
+          placeholder="src/index.js"
+          onChange={(e) => onNewFilePathChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate()
+            if (e.key === 'Escape') onNewFilePathChange(null)
+          }}
+          onBlur={() => !isBusy && onNewFilePathChange(null)}
+          className="w-full px-3 py-2 text-sm font-mono border border-primary-500 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none"
+        />
+      )}
+      {tree.folders.map(folder => renderFolder(folder, 0))}
+      {tree.files.map(file => renderFile(file, 0))}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import { DiffEditor } from '@monaco-editor/react'
+import { Check, X, Loader2, ArrowRight } from 'lucide-react'
+import { motion } from 'framer-motion'
+import type { CodeIssue } from '../lib/supabase'
+import type { FixProposal } from '../store/useAppStore'
+
+interface FixPreviewProps {
+  filename: string
+  language: string
+  issue: CodeIssue
+  proposal: FixProposal
+  currentScore: number
+  darkMode: boolean
+  isApplying: boolean
+  onAccept: () => void
+  onDiscard: () => void
+}
+
+export function FixPreview({
+  filename,
+  language,
+  issue,
+  proposal,
+  currentScore,
+  darkMode,
+  isApplying,
+  onAccept,
+  onDiscard
+}: FixPreviewProps) {
+  const scoreColor = (score: number) =>
+    score >= 80 ? 'text-green-500' : score >= 60 ? 'text-yellow-500' : 'text-red-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-5xl h-[80vh] flex flex-col overflow-hidden"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Proposed fix for <span className="font-mono">{filename}</span>
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 truncate">
+              Line {issue.line}: {issue.message}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 text-sm flex-shrink-0 ml-4">
+            <span className="text-gray-500 dark:text-gray-400">Health</span>
+            <span className={scoreColor(currentScore)}>{currentScore.toFixed(0)}%</span>
+            <ArrowRight className="w-4 h-4 text-gray-400" />
+            <span className={scoreColor(proposal.healthScore)}>{proposal.healthScore.toFixed(0)}%</span>
+            {proposal.mock && (
+              <span className="px-2 py-0.5 rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-xs">
+                Mock
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden">
+          <DiffEditor
+            height="100%"
+            language={language}
+            original={proposal.original}
+            modified={proposal.proposed}
+            theme={darkMode ? 'vs-dark' : 'light'}
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: 'Fira Code, Menlo, Monaco, monospace',
+              scrollBeyondLastLine: false,
+              automaticLayout: true
+            }}
+          />
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button
+            onClick={onDiscard}
+            disabled={isApplying}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors text-sm"
+          >
+            <X className="w-4 h-4" />
+            <span>Discard</span>
+          </button>
+          <button
+            onClick={onAccept}
+            disabled={isApplying}
+            className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors text-sm"
+          >
+            {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            <span>{isApplying ? 'Applying...' : 'Accept fix'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { FolderInput, Loader2, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore } from '../store/useAppStore'
+import type { ImportResult } from '../lib/import'
+
+interface ImportDialogProps {
+  result: ImportResult
+  onClose: () => void
+}
+
+export function ImportDialog({ result, onClose }: ImportDialogProps) {
+  const { codeFiles, importCodeFiles } = useAppStore()
+  const [isImporting, setIsImporting] = useState(false)
+
+  const existing = new Map(codeFiles.map(f => [f.filename, f]))
+  const statusOf = (filename: string, content: string) => {
+    const current = existing.get(filename)
+    if (!current) return 'new'
+    return current.content === content ? 'unchanged' : 'replaces'
+  }
+  const changes = result.files.filter(f => statusOf(f.filename, f.content) !== 'unchanged')
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    try {
+      const { created, updated } = await importCodeFiles(result.files)
+      const parts = [
+        created && `${created} new`,
+        updated && `${updated} updated`
+      ].filter(Boolean)
+      toast.success(`Imported ${parts.join(', ')}; analysing in the background`)
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import files')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl p-6 w-full max-w-lg"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <FolderInput className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Import Files
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {result.files.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Nothing in the drop could be imported.
+          </p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto scrollbar-thin space-y-1 text-sm">
+            {result.files.map((file) => {
+              const status = statusOf(file.filename, file.content)
+              return (
+                <li key={file.filename} className="flex items-center space-x-2">
+                  <span className="flex-1 truncate font-mono text-gray-900 dark:text-gray-100" title={file.filename}>
+                    {file.filename}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{file.language}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                    status === 'new'
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+                      : status === 'replaces'
+                        ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300'
+                        : 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+                  }`}>
+                    {status === 'replaces' ? 'replaces existing' : status}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {result.skipped.length > 0 && (
+          <details className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            <summary className="cursor-pointer">
+              {result.skipped.length} skipped
+            </summary>
+            <ul className="mt-2 max-h-32 overflow-y-auto scrollbar-thin space-y-1 text-xs">
+              {result.skipped.map((file) => (
+                <li key={`${file.path}:${file.reason}`} className="flex justify-between space-x-2">
+                  <span className="truncate font-mono">{file.path}</span>
+                  <span className="flex-shrink-0">{file.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isImporting || changes.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 transition-colors"
+          >
+            {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>Import {changes.length} {changes.length === 1 ? 'file' : 'files'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useRef, useState } from 'react'
+import { DiffEditor, type MonacoDiffEditor } from '@monaco-editor/react'
+import { GitMerge, Check, Loader2, Undo2 } from 'lucide-react'
+import { motion } from 'framer-motion'
+
+interface MergeDialogProps {
+  filename: string
+  language: string
+  // The stored version, written by someone else while `mine` was unsaved
+  theirs: string
+  mine: string
+  darkMode: boolean
+  onKeepTheirs: () => void
+  onSave: (merged: string) => Promise<void>
+}
+
+export function MergeDialog({
+  filename,
+  language,
+  theirs,
+  mine,
+  darkMode,
+  onKeepTheirs,
+  onSave
+}: MergeDialogProps) {
+  const diffEditor = useRef<MonacoDiffEditor | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    const merged = diffEditor.current?.getModifiedEditor().getValue() ?? mine
+    setIsSaving(true)
+    try {
+      await onSave(merged)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden"
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <GitMerge className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              <span className="font-mono">{filename}</span> was changed while you were editing it
+            </h3>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            On the left is the version that was saved meanwhile, on the right your unsaved version.
+            Edit the right side into the result you want, then save it.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-hidden">
+          <DiffEditor
+            height="100%"
+            language={language}
+            original={theirs}
+            modified={mine}
+            onMount={(editor) => {
+              diffEditor.current = editor
+            }}
+            theme={darkMode ? 'vs-dark' : 'light'}
+            options={{
+              originalEditable: false,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 13,
+              fontFamily: 'Fira Code, Menlo, Monaco, monospace',
+              scrollBeyondLastLine: false,
+              automaticLayout: true
+            }}
+          />
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-3">
+          <button
+            onClick={onKeepTheirs}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors text-sm"
+            title="Discard your unsaved changes"
+          >
+            <Undo2 className="w-4 h-4" />
+            <span>Keep their version</span>
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors text-sm"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            <span>{isSaving ? 'Saving...' : 'Save merged version'}</span>
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
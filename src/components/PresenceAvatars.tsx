@@ -0,0 +1,47 @@
+import type { ParticipantPresence, WorkspaceTab } from '../store/useAppStore'
+import { initials, presenceColor } from '../lib/presence'
+
+interface PresenceAvatarsProps {
+  people: ParticipantPresence[]
+  size?: 'sm' | 'md'
+  // Avatars beyond this are summarised as "+n"
+  max?: number
+}
+
+const TAB_LABELS: Record<WorkspaceTab, string> = {
+  chat: 'Chat',
+  code: 'Code',
+  sculpture: '3D View',
+  dashboard: 'Analytics',
+}
+
+export function PresenceAvatars({ people, size = 'md', max = 4 }: PresenceAvatarsProps) {
+  if (people.length === 0) return null
+
+  const dimensions = size === 'sm' ? 'w-5 h-5 text-[9px]' : 'w-7 h-7 text-xs'
+  const shown = people.slice(0, max)
+  const hidden = people.length - shown.length
+
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {shown.map(person => (
+        <span
+          key={person.userId}
+          className={`${dimensions} rounded-full ring-2 ring-white dark:ring-gray-900 flex items-center justify-center font-semibold text-white`}
+          style={{ backgroundColor: presenceColor(person.userId) }}
+          title={`${person.name} · ${TAB_LABELS[person.tab]}`}
+        >
+          {initials(person.name)}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span
+          className={`${dimensions} rounded-full ring-2 ring-white dark:ring-gray-900 flex items-center justify-center font-semibold bg-gray-400 text-white`}
+          title={people.slice(max).map(p => p.name).join(', ')}
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronUp, Sparkles, Wand2, Loader2 } from 'lucide-react'
+import type { CodeIssue, IssueSeverity } from '../lib/supabase'
+
+interface ProblemsPanelProps {
+  issues: CodeIssue[]
+  onSelect: (issue: CodeIssue) => void
+  // Omitted while fixes are unavailable, e.g. during manual editing
+  onFix?: (issue: CodeIssue) => void
+  fixingIssue?: CodeIssue | null
+}
+
+const SEVERITY_ORDER: IssueSeverity[] = ['error', 'warning', 'info']
+
+const SEVERITY_STYLES: Record<IssueSeverity, { icon: typeof AlertCircle, color: string }> = {
+  error: { icon: AlertCircle, color: 'text-red-500' },
+  warning: { icon: AlertTriangle, color: 'text-yellow-500' },
+  info: { icon: Info, color: 'text-blue-500' },
+}
+
+export function ProblemsPanel({ issues, onSelect, onFix, fixingIssue }: ProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(true)
+
+  const sorted = [...issues].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line || a.column - b.column
+  )
+  const counts = SEVERITY_ORDER.map(severity => ({
+    severity,
+    count: issues.filter(i => i.severity === severity).length
+  }))
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900 flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full h-9 flex items-center justify-between px-4 text-sm hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+      >
+        <div className="flex items-center space-x-4">
+          <span className="font-medium text-gray-900 dark:text-gray-100">Problems</span>
+          {counts.map(({ severity, count }) => {
+            const { icon: Icon, color } = SEVERITY_STYLES[severity]
+            return (
+              <span key={severity} className="flex items-center space-x-1 text-gray-600 dark:text-gray-400">
+                <Icon className={`w-3.5 h-3.5 ${color}`} />
+                <span>{count}</span>
+              </span>
+            )
+          })}
+        </div>
+        {isOpen ? <ChevronDown className="w-4 h-4 text-gray-400" /> : <ChevronUp className="w-4 h-4 text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto scrollbar-thin">
+          {sorted.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+              No problems detected
+            </p>
+          ) : (
+            sorted.map((issue, index) => {
+              const { icon: Icon, color } = SEVERITY_STYLES[issue.severity]
+              return (
+                <div
+                  key={`${issue.ruleId}-${issue.line}-${issue.column}-${index}`}
+                  className="group flex items-start hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                >
+                  <button
+                    onClick={() => onSelect(issue)}
+                    className="flex-1 min-w-0 flex items-start space-x-3 pl-4 py-2 text-left text-sm"
+                  >
+                    <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-gray-900 dark:text-gray-100">{issue.message}</div>
+                      {issue.suggestedFix && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                          Fix: {issue.suggestedFix}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0 text-xs text-gray-400">
+                      {issue.source === 'llm' && <Sparkles className="w-3 h-3" aria-label="Model review" />}
+                      <span className="font-mono">{issue.ruleId}</span>
+                      <span>Ln {issue.line}, Col {issue.column}</span>
+                    </div>
+                  </button>
+                  <div className="w-16 flex-shrink-0 flex justify-end pr-4 py-1.5">
+                    {onFix && (
+                      <button
+                        onClick={() => onFix(issue)}
+                        disabled={!!fixingIssue}
+                        className={`flex items-center space-x-1 px-2 py-1 rounded text-xs text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 disabled:opacity-50 transition-opacity ${
+                          fixingIssue === issue ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                        }`}
+                        title="Propose a fix"
+                      >
+                        {fixingIssue === issue ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                        <span>Fix</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
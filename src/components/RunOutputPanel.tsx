@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react'
+import { Terminal, Loader2, CheckCircle, AlertCircle, Clock, X } from 'lucide-react'
+import type { OutputLine, RunStatus, SourceLocation } from '../lib/runtime'
+
+interface RunOutputPanelProps {
+  filename: string
+  status: RunStatus
+  output: OutputLine[]
+  durationMs?: number
+  onClose: () => void
+  onOpenLocation: (location: SourceLocation) => void
+}
+
+const STREAM_COLORS: Record<OutputLine['stream'], string> = {
+  stdout: 'text-gray-100',
+  stderr: 'text-red-400',
+  result: 'text-cyan-300',
+  system: 'text-gray-500 italic',
+}
+
+const STATUS_LABELS: Record<RunStatus, { label: string, icon: typeof CheckCircle, color: string }> = {
+  running: { label: 'Running', icon: Loader2, color: 'text-blue-400' },
+  success: { label: 'Exited', icon: CheckCircle, color: 'text-green-400' },
+  error: { label: 'Failed', icon: AlertCircle, color: 'text-red-400' },
+  timeout: { label: 'Timed out', icon: Clock, color: 'text-yellow-400' },
+}
+
+export function RunOutputPanel({ filename, status, output, durationMs, onClose, onOpenLocation }: RunOutputPanelProps) {
+  const endRef = useRef<HTMLDivElement>(null)
+  const { label, icon: StatusIcon, color } = STATUS_LABELS[status]
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [output.length])
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 bg-gray-950 flex-shrink-0 flex flex-col h-56">
+      <div className="h-9 flex items-center justify-between px-4 border-b border-gray-800 text-sm">
+        <div className="flex items-center space-x-3 min-w-0">
+          <Terminal className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="font-medium text-gray-100">Output</span>
+          <span className="font-mono text-gray-400 truncate">{filename}</span>
+          <span className={`flex items-center space-x-1 ${color}`}>
+            <StatusIcon className={`w-3.5 h-3.5 ${status === 'running' ? 'animate-spin' : ''}`} />
+            <span>{label}</span>
+          </span>
+          {durationMs !== undefined && status !== 'running' && (
+            <span className="text-xs text-gray-500">{durationMs}ms</span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          disabled={status === 'running'}
+          className="p-1 rounded hover:bg-gray-800 disabled:opacity-50 transition-colors"
+          title="Close output"
+        >
+          <X className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin px-4 py-2 font-mono text-xs leading-5">
+        {output.length === 0 && status === 'running' && (
+          <div className="text-gray-500 italic">Waiting for output...</div>
+        )}
+        {output.map((line, index) => line.location ? (
+          <button
+            key={index}
+            onClick={() => onOpenLocation(line.location!)}
+            className={`block w-full text-left whitespace-pre-wrap break-words hover:underline ${STREAM_COLORS[line.stream]}`}
+            title={`Open ${line.location.filename} at line ${line.location.line}`}
+          >
+            {line.text}
+          </button>
+        ) : (
+          <div key={index} className={`whitespace-pre-wrap break-words ${STREAM_COLORS[line.stream]}`}>
+            {line.text}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useState, type FormEvent } from 'react'
+import { LayoutTemplate, Loader2, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore } from '../store/useAppStore'
+
+interface SaveTemplateDialogProps {
+  onClose: () => void
+}
+
+export function SaveTemplateDialog({ onClose }: SaveTemplateDialogProps) {
+  const { currentSession, codeFiles, messages, saveSessionAsTemplate } = useAppStore()
+  const [name, setName] = useState(currentSession?.name ?? '')
+  const [description, setDescription] = useState(currentSession?.description ?? '')
+  // A session started from a template passes its starter message on
+  const [systemMessage, setSystemMessage] = useState(
+    () => messages.find(m => m.type === 'system' && m.metadata?.template)?.content ?? ''
+  )
+  const [isPublic, setIsPublic] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  if (!currentSession) return null
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsSaving(true)
+    try {
+      await saveSessionAsTemplate({
+        name: name.trim(),
+        description: description.trim(),
+        systemMessage: systemMessage.trim(),
+        isPublic
+      })
+      toast.success(`Saved "${name.trim()}" as a template`)
+      onClose()
+    } catch {
+      toast.error('Failed to save template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.form
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onSubmit={handleSave}
+        className="bg-white dark:bg-gray-800 rounded-2xl p-6 w-full max-w-md"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <LayoutTemplate className="w-5 h-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Save as Template
+            </h3>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Description
+            </label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Starter message
+            </label>
+            <textarea
+              value={systemMessage}
+              onChange={(e) => setSystemMessage(e.target.value)}
+              rows={3}
+              placeholder="How the project is laid out, posted first in new sessions"
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+            />
+          </div>
+          <label className="flex items-start space-x-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 dark:border-gray-600 text-primary-500 focus:ring-primary-500"
+            />
+            <span>
+              Anyone can use this template
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Otherwise only you and the members of this session can
+              </span>
+            </span>
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The template copies the {codeFiles.length} file{codeFiles.length !== 1 ? 's' : ''} as they are now; later changes to this session do not update it.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="flex items-center space-x-2 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <LayoutTemplate className="w-4 h-4" />}
+            <span>{isSaving ? 'Saving...' : 'Save template'}</span>
+          </button>
+        </div>
+      </motion.form>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Copy, Check, Loader2, Mail, X } from 'lucide-react'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { useAppStore, type Invitation } from '../store/useAppStore'
+import { can, ROLE_LABELS, SESSION_ROLES, type SessionRole } from '../lib/permissions'
+import { sessionPath } from '../lib/routes'
+
+interface ShareModalProps {
+  onClose: () => void
+}
+
+const INVITABLE_ROLES = SESSION_ROLES.filter((role): role is Invitation['role'] => role !== 'owner')
+
+export function ShareModal({ onClose }: ShareModalProps) {
+  const {
+    user,
+    currentSession,
+    sessionRole,
+    sessionParticipants,
+    presence,
+    inviteToSession,
+    loadInvitations,
+    revokeInvitation,
+    updateParticipantRole
+  } = useAppStore()
+  const [copied, setCopied] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<Invitation['role']>('developer')
+  const [isInviting, setIsInviting] = useState(false)
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const canManage = can(sessionRole, 'manage')
+  const sessionId = currentSession?.id
+
+  const refreshInvitations = useCallback(async () => {
+    if (!sessionId || !canManage) return
+    try {
+      setInvitations(await loadInvitations(sessionId))
+    } catch {
+      toast.error('Failed to load invitations')
+    }
+  }, [sessionId, canManage, loadInvitations])
+
+  useEffect(() => {
+    refreshInvitations()
+  }, [refreshInvitations])
+
+  if (!currentSession) return null
+
+  const sessionUrl = window.location.origin + sessionPath(currentSession.id)
+  const inviteUrl = (invitation: Invitation) => `${window.location.origin}/invite/${invitation.token}`
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(url)
+      setTimeout(() => setCopied(null), 2000)
+      toast.success('Link copied to clipboard!')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setIsInviting(true)
+    try {
+      const { delivered } = await inviteToSession(currentSession.id, email.trim(), role)
+      toast.success(delivered
+        ? `Invitation sent to ${email.trim()}`
+        : 'Invitation created; email delivery is not configured, so copy its link below')
+      setEmail('')
+      await refreshInvitations()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation')
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation(invitation.id)
+      setInvitations(invitations.filter(i => i.id !== invitation.id))
+      toast.success(`Invitation for ${invitation.email} revoked`)
+    } catch {
+      toast.error('Failed to revoke invitation')
+    }
+  }
+
+  const handleRoleChange = async (participantId: string, newRole: SessionRole) => {
+    try {
+      await updateParticipantRole(participantId, newRole)
+      toast.success(`Role changed to ${ROLE_LABELS[newRole]}`)
+    } catch {
+      toast.error('Failed to change role')
+    }
+  }
+
+  // Participants have no profile, so name them by their presence when online
+  const participantName = (userId: string) => {
+    if (userId === user?.id) return 'You'
+    return presence.find(p => p.userId === userId)?.name ?? `Participant ${userId.slice(0, 8)}`
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl p-6 w-full max-w-md"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+          Share Session
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Session Link
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={sessionUrl}
+                readOnly
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm"
+              />
+              <button
+                onClick={() => copyLink(sessionUrl)}
+                className="px-3 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+              >
+                {copied === sessionUrl ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+
+          {canManage && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Invite by Email
+              </label>
+              <form onSubmit={handleInvite} className="flex items-center space-x-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="colleague@example.com"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as Invitation['role'])}
+                  className="px-2 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+                >
+                  {INVITABLE_ROLES.map(r => (
+                    <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isInviting || !email.trim()}
+                  className="px-3 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors text-sm"
+                >
+                  {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Invite'}
+                </button>
+              </form>
+
+              {invitations.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {invitations.map((invitation) => (
+                    <li key={invitation.id} className="flex items-center space-x-2 text-sm">
+                      <Mail className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                      <span className="flex-1 truncate text-gray-900 dark:text-gray-100" title={invitation.email}>
+                        {invitation.email}
+                      </span>
+                      <span
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                        title={`Expires ${new Date(invitation.expires_at).toLocaleString()}`}
+                      >
+                        {ROLE_LABELS[invitation.role]} · pending
+                      </span>
+                      <button
+                        onClick={() => copyLink(inviteUrl(invitation))}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        title="Copy invitation link"
+                      >
+                        {copied === inviteUrl(invitation) ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        className="p-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        title="Revoke invitation"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Participants
+            </label>
+            <ul className="max-h-48 overflow-y-auto scrollbar-thin space-y-1">
+              {sessionParticipants.map((participant) => (
+                <li key={participant.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900 dark:text-gray-100 truncate">
+                    {participantName(participant.user_id)}
+                  </span>
+                  {canManage && participant.role !== 'owner' ? (
+                    <select
+                      value={participant.role}
+                      onChange={(e) => handleRoleChange(participant.id, e.target.value as SessionRole)}
+                      className="px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-xs"
+                    >
+                      {INVITABLE_ROLES.map(r => (
+                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{ROLE_LABELS[participant.role]}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -1,35 +1,71 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Plus, MessageSquare, Code, BarChart3, Cuboid as Cube, ChevronLeft, ChevronRight, Folder, Settings, Home } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
 import { useAppStore } from '../store/useAppStore'
+import { sessionPath } from '../lib/routes'
+import { DEFAULT_LANGUAGE, LANGUAGES, languageLabel } from '../lib/languages'
+import { BUILT_IN_TEMPLATES } from '../lib/templates'
+import toast from 'react-hot-toast'
 import { motion } from 'framer-motion'
 
 export function Sidebar() {
   const { 
+    user,
     sessions, 
+    templates,
     currentSession, 
     sidebarCollapsed, 
     toggleSidebar,
     createSession,
-    joinSession
+    loadTemplates,
+    deleteTemplate
   } = useAppStore()
+  const navigate = useNavigate()
   
   const [newSessionName, setNewSessionName] = useState('')
+  const [newSessionLanguage, setNewSessionLanguage] = useState(DEFAULT_LANGUAGE)
+  const [newSessionTemplateId, setNewSessionTemplateId] = useState('')
   const [showNewSessionForm, setShowNewSessionForm] = useState(false)
 
+  const template = [...BUILT_IN_TEMPLATES, ...templates].find(t => t.id === newSessionTemplateId)
+
+  // Saved templates change as teams save them, so fetch them every time
+  useEffect(() => {
+    if (showNewSessionForm) loadTemplates()
+  }, [showNewSessionForm, loadTemplates])
+
+  const handleTemplateChange = (templateId: string) => {
+    setNewSessionTemplateId(templateId)
+    const picked = [...BUILT_IN_TEMPLATES, ...templates].find(t => t.id === templateId)
+    if (picked) setNewSessionLanguage(picked.language)
+  }
+
+  const handleDeleteTemplate = async () => {
+    if (!template || !window.confirm(`Delete the template "${template.name}"? Sessions created from it are not affected.`)) return
+    try {
+      await deleteTemplate(template.id)
+      setNewSessionTemplateId('')
+      toast.success('Template deleted')
+    } catch {
+      toast.error('Failed to delete template')
+    }
+  }
+
   const handleCreateSession = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newSessionName.trim()) return
 
-    const session = await createSession(newSessionName)
+    const session = await createSession(newSessionName, template?.description ?? '', newSessionLanguage, template)
     if (session) {
       setNewSessionName('')
+      setNewSessionTemplateId('')
       setShowNewSessionForm(false)
-      await joinSession(session.id)
+      navigate(sessionPath(session.id))
     }
   }
 
   const handleGoHome = () => {
-    window.location.reload() // Simple way to go back to home page
+    window.location.assign('/') // Simple way to go back to home page
   }
 
   return (
@@ -80,6 +116,52 @@ export function Sidebar() {
                       className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                       autoFocus
                     />
+                    <select
+                      value={newSessionTemplateId}
+                      onChange={(e) => handleTemplateChange(e.target.value)}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      title="Files and starter message the session begins with"
+                    >
+                      <option value="">Blank session</option>
+                      <optgroup label="Templates">
+                        {BUILT_IN_TEMPLATES.map(t => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </optgroup>
+                      {templates.length > 0 && (
+                        <optgroup label="Saved templates">
+                          {templates.map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    {template && (
+                      <div className="px-1 text-xs text-gray-500 dark:text-gray-400">
+                        <p>
+                          {template.description || 'No description'} · {template.files.length} file{template.files.length !== 1 ? 's' : ''}
+                        </p>
+                        {template.owner_id && template.owner_id === user?.id && (
+                          <button
+                            type="button"
+                            onClick={handleDeleteTemplate}
+                            className="mt-1 text-red-500 hover:text-red-600"
+                          >
+                            Delete template
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    <select
+                      value={newSessionLanguage}
+                      onChange={(e) => setNewSessionLanguage(e.target.value)}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      title="Language the AI generates code in unless a request calls for others"
+                    >
+                      {LANGUAGES.map(language => (
+                        <option key={language.id} value={language.id}>{language.label}</option>
+                      ))}
+                    </select>
                     <div className="flex space-x-2">
                       <button
                         type="submit"
@@ -118,7 +200,7 @@ export function Sidebar() {
                       key={session.id}
                       initial={{ opacity: 0, x: -10 }}
                       animate={{ opacity: 1, x: 0 }}
-                      onClick={() => joinSession(session.id)}
+                      onClick={() => navigate(sessionPath(session.id))}
                       className={`w-full flex items-center space-x-3 px-3 py-3 text-sm rounded-lg transition-colors ${
                         currentSession?.id === session.id
                           ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300 border border-primary-200 dark:border-primary-800'
@@ -129,7 +211,7 @@ export function Sidebar() {
                       <div className="flex-1 text-left truncate">
                         <div className="truncate font-medium">{session.name}</div>
                         <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          <span className="capitalize">{session.language}</span>
+                          <span>{languageLabel(session.language)}</span>
                           <span>•</span>
                           <span>{session.is_public ? 'Public' : 'Private'}</span>
                         </div>
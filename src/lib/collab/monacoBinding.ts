@@ -0,0 +1,90 @@
+import type * as Y from 'yjs'
+import type { OnMount } from '@monaco-editor/react'
+
+type MonacoEditor = Parameters<OnMount>[0]
+
+// Transaction origin for edits typed into this editor
+const LOCAL_ORIGIN = 'monaco'
+
+// Two-way binding between a Y.Text and the editor's model. Local edits become
+// Yjs operations; remote operations are applied to the model as edits, so
+// cursors and selections move with the text instead of being reset.
+export function bindMonaco(text: Y.Text, editor: MonacoEditor) {
+  const model = editor.getModel()
+  if (!model) return () => {}
+
+  let applyingRemote = false
+
+  const applyRemote = (fn: () => void) => {
+    applyingRemote = true
+    try {
+      fn()
+    } finally {
+      applyingRemote = false
+    }
+  }
+
+  // Offsets in Yjs and Monaco only agree with a single-character line ending
+  model.setEOL(0)
+  if (model.getValue() !== text.toString()) {
+    applyRemote(() => model.setValue(text.toString()))
+  }
+
+  const handleRemote = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === LOCAL_ORIGIN) return
+
+    applyRemote(() => {
+      let index = 0
+      for (const op of event.delta) {
+        if (op.retain !== undefined) {
+          index += op.retain
+        } else if (op.insert !== undefined) {
+          const position = model.getPositionAt(index)
+          const inserted = typeof op.insert === 'string' ? op.insert : ''
+          model.applyEdits([{
+            range: {
+              startLineNumber: position.lineNumber,
+              startColumn: position.column,
+              endLineNumber: position.lineNumber,
+              endColumn: position.column
+            },
+            text: inserted
+          }])
+          index += inserted.length
+        } else if (op.delete !== undefined) {
+          const start = model.getPositionAt(index)
+          const end = model.getPositionAt(index + op.delete)
+          model.applyEdits([{
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column
+            },
+            text: ''
+          }])
+        }
+      }
+    })
+  }
+
+  text.observe(handleRemote)
+
+  const contentListener = model.onDidChangeContent((event) => {
+    if (applyingRemote) return
+
+    // Changes are relative to the previous content, so apply from the end
+    const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset)
+    text.doc!.transact(() => {
+      for (const change of changes) {
+        if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength)
+        if (change.text) text.insert(change.rangeOffset, change.text)
+      }
+    }, LOCAL_ORIGIN)
+  })
+
+  return () => {
+    text.unobserve(handleRemote)
+    contentListener.dispose()
+  }
+}
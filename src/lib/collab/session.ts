@@ -0,0 +1,305 @@
+import * as Y from 'yjs'
+import { supabase } from '../supabase'
+import { SaveConflictError } from '../conflicts'
+
+export interface CollabPeer {
+  clientId: number
+  userId: string
+}
+
+export interface CollabSession {
+  text: Y.Text
+  isLeader: () => boolean
+  // Whether a stored row still belongs to this document, rather than to a
+  // write made outside the session (an AI change, a fix or a restore)
+  isCurrent: (content: string, collabState: string | null) => boolean
+  // Whether the document has changes that are not stored yet
+  hasUnsavedChanges: () => boolean
+  // Replaces the whole document, e.g. with the result of a merge
+  replace: (content: string) => void
+  // Writes the merged state to the database now
+  flush: () => Promise<void>
+  // Leaves the channel, saving unsaved changes first unless told otherwise
+  destroy: (options?: { save?: boolean }) => Promise<void>
+}
+
+interface CollabSessionOptions {
+  fileId: string
+  userId: string
+  content: string
+  // Encoded Yjs state last saved with the content, if any
+  collabState: string | null
+  load: () => Promise<{ content: string, collabState: string | null, updatedAt: string }>
+  // Must throw SaveConflictError unless the row is still at `expectedUpdatedAt`
+  save: (content: string, collabState: string, expectedUpdatedAt: string) => Promise<void>
+  onPeersChange?: (peers: CollabPeer[]) => void
+  onUnsavedChange?: (unsaved: boolean) => void
+}
+
+// Transaction origin for updates that came from the channel or the database
+const REMOTE_ORIGIN = 'remote'
+
+// The leader writes the shared document back to code_files once edits
+// pause, and at least this often while they do not
+const AUTOSAVE_DELAY_MS = 1500
+const AUTOSAVE_MAX_WAIT_MS = 10000
+
+// A peer saving between our load and our write means merging again
+const SAVE_ATTEMPTS = 3
+
+// Collaborative editing of one file. Peers exchange Yjs updates over a
+// Supabase broadcast channel (sync_step1/sync_step2 on join, then update);
+// presence on the same channel elects the peer with the lowest client id to
+// persist the document when edits pause. Each document starts from a seed of
+// the file's content, and only peers with the same seed share a channel.
+export function createCollabSession({
+  fileId,
+  userId,
+  content,
+  collabState,
+  load,
+  save,
+  onPeersChange,
+  onUnsavedChange
+}: CollabSessionOptions): CollabSession {
+  const doc = new Y.Doc()
+  const text = doc.getText('content')
+  const restored = collabState !== null && textOf(collabState) === content ? collabState : null
+  Y.applyUpdate(doc, restored ? fromBase64(restored) : seedUpdate(content), REMOTE_ORIGIN)
+  const lineage = doc.getMap('meta').get('lineage') as number
+
+  // Once this document has been stored, a row without state was written by
+  // someone else
+  let persisted = restored !== null
+  let dirty = false
+  // When the oldest change that is not stored yet was made
+  let dirtySince: number | null = null
+  // Set while merging the stored state, which is not a change to store
+  let merging = false
+  let subscribed = false
+  let peers: CollabPeer[] = []
+  let saving: Promise<void> | null = null
+  let autosaveTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Private, so only people whose role may edit the file can join
+  const channel = supabase.channel(`code_file:${fileId}:${lineage}`, {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: String(doc.clientID) }
+    }
+  })
+
+  const send = (event: string, payload: Record<string, unknown>) => {
+    if (subscribed) channel.send({ type: 'broadcast', event, payload })
+  }
+
+  const sendStep1 = (to: number | null, reply: boolean) => send('sync_step1', {
+    from: doc.clientID,
+    to,
+    reply,
+    stateVector: toBase64(Y.encodeStateVector(doc))
+  })
+
+  const hasUnsavedChanges = () => dirty || saving !== null
+  const reportUnsaved = () => onUnsavedChange?.(hasUnsavedChanges())
+
+  const isLeader = () => peers.length === 0 || Math.min(...peers.map(p => p.clientId)) === doc.clientID
+
+  const scheduleAutosave = () => {
+    if (autosaveTimer) clearTimeout(autosaveTimer)
+    const wait = Math.min(AUTOSAVE_DELAY_MS, (dirtySince ?? Date.now()) + AUTOSAVE_MAX_WAIT_MS - Date.now())
+    autosaveTimer = setTimeout(() => {
+      autosaveTimer = null
+      if (dirty && isLeader()) {
+        flush().catch(error => console.error('Error saving collaborative changes:', error))
+      }
+    }, Math.max(0, wait))
+  }
+
+  const markClean = () => {
+    dirty = false
+    dirtySince = null
+    if (autosaveTimer) clearTimeout(autosaveTimer)
+    autosaveTimer = null
+    reportUnsaved()
+  }
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    if (!merging) {
+      dirty = true
+      dirtySince ??= Date.now()
+      reportUnsaved()
+      scheduleAutosave()
+    }
+    if (origin !== REMOTE_ORIGIN) send('update', { update: toBase64(update) })
+  })
+
+  channel
+    .on('broadcast', { event: 'update' }, ({ payload }) => {
+      Y.applyUpdate(doc, fromBase64(payload.update), REMOTE_ORIGIN)
+    })
+    .on('broadcast', { event: 'sync_step1' }, ({ payload }) => {
+      if (payload.to !== null && payload.to !== doc.clientID) return
+      send('sync_step2', {
+        to: payload.from,
+        update: toBase64(Y.encodeStateAsUpdate(doc, fromBase64(payload.stateVector)))
+      })
+      // A newcomer also needs to learn what it has that we do not
+      if (payload.reply) sendStep1(payload.from, false)
+    })
+    .on('broadcast', { event: 'sync_step2' }, ({ payload }) => {
+      if (payload.to === doc.clientID) Y.applyUpdate(doc, fromBase64(payload.update), REMOTE_ORIGIN)
+    })
+    .on('presence', { event: 'sync' }, () => {
+      peers = Object.values(channel.presenceState<{ client_id: number, user_id: string }>())
+        .flat()
+        .map(p => ({ clientId: p.client_id, userId: p.user_id }))
+      onPeersChange?.(peers)
+      // The leader may have left with changes still to save
+      if (dirty) scheduleAutosave()
+    })
+    .subscribe(async (status) => {
+      if (status !== 'SUBSCRIBED') return
+      subscribed = true
+      await channel.track({ client_id: doc.clientID, user_id: userId })
+      sendStep1(null, true)
+    })
+
+  const isCurrent = (storedContent: string, storedState: string | null) => {
+    if (storedState) {
+      const stored = decodeState(storedState)
+      const current = stored.getMap('meta').get('lineage') === lineage
+      if (current) {
+        persisted = true
+        // Another peer saved everything this document has
+        if (dirty && !saving && covers(stored, doc)) markClean()
+      }
+      return current
+    }
+    return !persisted && storedContent === content
+  }
+
+  const replace = (replacement: string) => {
+    doc.transact(() => {
+      text.delete(0, text.length)
+      text.insert(0, replacement)
+    })
+  }
+
+  const flush = async () => {
+    if (saving) await saving
+    if (!dirty) return
+
+    saving = (async () => {
+      dirty = false
+      try {
+        for (let attempt = 1; ; attempt++) {
+          const stored = await load()
+          if (!isCurrent(stored.content, stored.collabState)) {
+            throw new SaveConflictError('The file was changed outside this editing session')
+          }
+          // Merge whatever another peer saved, so this write never drops it
+          if (stored.collabState) {
+            merging = true
+            try {
+              Y.applyUpdate(doc, fromBase64(stored.collabState), REMOTE_ORIGIN)
+            } finally {
+              merging = false
+            }
+          }
+
+          try {
+            await save(text.toString(), toBase64(Y.encodeStateAsUpdate(doc)), stored.updatedAt)
+            break
+          } catch (error) {
+            if (!(error instanceof SaveConflictError) || attempt === SAVE_ATTEMPTS) throw error
+          }
+        }
+        persisted = true
+      } catch (error) {
+        dirty = true
+        throw error
+      }
+    })()
+    reportUnsaved()
+
+    try {
+      await saving
+    } finally {
+      saving = null
+      // Changes made while saving start a new wait
+      dirtySince = dirty ? Date.now() : null
+      reportUnsaved()
+    }
+  }
+
+  const destroy = async ({ save: saveChanges = true }: { save?: boolean } = {}) => {
+    if (autosaveTimer) clearTimeout(autosaveTimer)
+    try {
+      if (saveChanges) await flush()
+    } finally {
+      await channel.untrack()
+      await supabase.removeChannel(channel)
+      doc.destroy()
+    }
+  }
+
+  return { text, isLeader, isCurrent, hasUnsavedChanges, replace, flush, destroy }
+}
+
+// Every peer builds the same seed from the same content: a fixed client id
+// derived from the text makes the inserts identical, so two peers starting
+// at once do not duplicate the file.
+function seedUpdate(content: string) {
+  const seed = new Y.Doc()
+  seed.clientID = hashContent(content)
+  seed.transact(() => {
+    seed.getMap('meta').set('lineage', seed.clientID)
+    seed.getText('content').insert(0, content)
+  })
+  return Y.encodeStateAsUpdate(seed)
+}
+
+function decodeState(collabState: string) {
+  const doc = new Y.Doc()
+  Y.applyUpdate(doc, fromBase64(collabState))
+  return doc
+}
+
+function textOf(collabState: string) {
+  return decodeState(collabState).getText('content').toString()
+}
+
+// Whether `stored` has every change `doc` has. Deletes do not advance the
+// state vector, so the text is compared as well.
+function covers(stored: Y.Doc, doc: Y.Doc) {
+  if (stored.getText('content').toString() !== doc.getText('content').toString()) return false
+  const storedClocks = Y.decodeStateVector(Y.encodeStateVector(stored))
+  for (const [client, clock] of Y.decodeStateVector(Y.encodeStateVector(doc))) {
+    if ((storedClocks.get(client) ?? 0) < clock) return false
+  }
+  return true
+}
+
+// 32-bit FNV-1a
+function hashContent(content: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(encoded: string) {
+  return Uint8Array.from(atob(encoded), c => c.charCodeAt(0))
+}
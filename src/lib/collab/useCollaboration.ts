@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react'
+import type { OnMount } from '@monaco-editor/react'
+import toast from 'react-hot-toast'
+import { useAppStore } from '../../store/useAppStore'
+import { bindMonaco } from './monacoBinding'
+import { createCollabSession, type CollabPeer, type CollabSession } from './session'
+
+type MonacoEditor = Parameters<OnMount>[0]
+
+interface CollabFile {
+  id: string
+  filename: string
+  content: string
+  collab_state?: string | null
+}
+
+// Unsaved edits that met a write made outside the session
+export interface CollabConflict {
+  fileId: string
+  // This editor's version, and the one that was stored meanwhile
+  mine: string
+  theirs: string
+}
+
+// Joins the collaborative session for `file` while it is given and binds it
+// to the editor. Leaving (file becomes undefined or changes) saves pending
+// changes.
+export function useCollaboration(file: CollabFile | undefined, editor: MonacoEditor | null) {
+  const { user, loadCollabState, saveCollabState } = useAppStore()
+  const [session, setSession] = useState<CollabSession | null>(null)
+  const [peers, setPeers] = useState<CollabPeer[]>([])
+  const [unsaved, setUnsaved] = useState(false)
+  const [conflict, setConflict] = useState<CollabConflict | null>(null)
+  // Bumped to start over from content written outside the session
+  const [restarts, setRestarts] = useState(0)
+  const latestFile = useRef(file)
+  latestFile.current = file
+  const discardOnLeave = useRef(false)
+
+  const fileId = file?.id
+  const userId = user?.id
+
+  useEffect(() => {
+    const current = latestFile.current
+    if (!fileId || !userId || !current) return
+
+    const created = createCollabSession({
+      fileId,
+      userId,
+      content: current.content,
+      collabState: current.collab_state ?? null,
+      load: () => loadCollabState(fileId),
+      save: (content, collabState, expectedUpdatedAt) => saveCollabState(fileId, content, collabState, expectedUpdatedAt),
+      onPeersChange: setPeers,
+      onUnsavedChange: setUnsaved
+    })
+    setSession(created)
+
+    return () => {
+      // A deleted file has nowhere to save to
+      const save = !discardOnLeave.current && useAppStore.getState().codeFiles.some(f => f.id === fileId)
+      discardOnLeave.current = false
+      setSession(null)
+      setPeers([])
+      setUnsaved(false)
+      created.destroy({ save }).catch(() => toast.error('Failed to save your latest changes'))
+    }
+  }, [fileId, userId, restarts, loadCollabState, saveCollabState])
+
+  useEffect(() => {
+    if (!session || !editor) return
+    return bindMonaco(session.text, editor)
+  }, [session, editor])
+
+  // An AI change, fix or restore replaces the file for everyone editing it.
+  // Edits not saved yet are kept aside to merge rather than lost.
+  const content = file?.content
+  const collabState = file?.collab_state ?? null
+  useEffect(() => {
+    if (!session || !fileId || content === undefined || session.isCurrent(content, collabState)) return
+    const mine = session.text.toString()
+    const hadUnsavedChanges = session.hasUnsavedChanges() && mine !== content
+    discardOnLeave.current = true
+    setRestarts(count => count + 1)
+    if (hadUnsavedChanges) {
+      setConflict({ fileId, mine, theirs: content })
+    } else {
+      toast(`${latestFile.current?.filename} was changed outside the editor and has been reloaded`)
+    }
+  }, [session, fileId, content, collabState])
+
+  // Keeps the stored version, or replaces it with the merged `content`
+  const resolveConflict = async (merged: string | null) => {
+    if (merged !== null && session && conflict?.fileId === fileId) {
+      session.replace(merged)
+      await session.flush()
+    }
+    setConflict(null)
+  }
+
+  return {
+    peers,
+    unsaved,
+    conflict: conflict?.fileId === fileId ? conflict : null,
+    resolveConflict,
+    flush: () => session?.flush() ?? Promise.resolve()
+  }
+}
@@ -0,0 +1,9 @@
+// A save is checked against the `updated_at` of the row it was based on.
+// This is thrown when the row has changed since, so writing would overwrite
+// someone else's change.
+export class SaveConflictError extends Error {
+  constructor(message = 'The file was changed by someone else') {
+    super(message)
+    this.name = 'SaveConflictError'
+  }
+}
@@ -0,0 +1,54 @@
+export interface ServerSentEvent {
+  event: string
+  data: unknown
+}
+
+// Parses a text/event-stream body into discrete events. Each event's data
+// payload is JSON-decoded; events without a name default to "message".
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const chunks = buffer.split('\n\n')
+      buffer = chunks.pop() ?? ''
+
+      for (const chunk of chunks) {
+        const parsed = parseEvent(chunk)
+        if (parsed) yield parsed
+      }
+    }
+
+    const trailing = parseEvent(buffer)
+    if (trailing) yield trailing
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parseEvent(chunk: string): ServerSentEvent | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of chunk.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+
+  if (dataLines.length === 0) return null
+
+  const raw = dataLines.join('\n')
+  try {
+    return { event, data: JSON.parse(raw) }
+  } catch {
+    return { event, data: raw }
+  }
+}
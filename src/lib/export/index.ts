@@ -0,0 +1,63 @@
+import { strToU8, zipSync, type Zippable } from 'fflate'
+import { inferManifests } from './manifest'
+import { normalizePath } from '../fileTree'
+import { baseName, slugify } from './paths'
+import { buildReadme } from './readme'
+import type { ExportFile, ExportSession } from './types'
+
+export type { ExportFile, ExportSession, GeneratedFile } from './types'
+export { findNpmPackages, findPythonPackages, inferManifests } from './manifest'
+
+export interface ArchiveOptions {
+  // Add package.json / requirements.txt inferred from the imports
+  manifest?: boolean
+  // Add a README.md describing the session
+  readme?: boolean
+}
+
+// Zips the files under a folder named after the session, keeping their paths
+export function buildProjectArchive(
+  session: ExportSession,
+  files: ExportFile[],
+  { manifest = true, readme = true }: ArchiveOptions = {}
+): Uint8Array {
+  const root = slugify(session.name)
+  const entries: Zippable = {}
+
+  for (const file of files) {
+    const path = normalizePath(file.filename)
+    if (!path) continue
+    const mtime = file.updated_at ? new Date(file.updated_at) : undefined
+    entries[`${root}/${path}`] = [strToU8(file.content), mtime ? { mtime } : {}]
+  }
+
+  const manifests = manifest ? inferManifests(session, files) : []
+  for (const generated of manifests) {
+    entries[`${root}/${generated.filename}`] = strToU8(generated.content)
+  }
+
+  if (readme && !files.some(f => normalizePath(f.filename).toLowerCase() === 'readme.md')) {
+    entries[`${root}/README.md`] = strToU8(buildReadme(session, files, manifests))
+  }
+
+  return zipSync(entries, { level: 6 })
+}
+
+export function downloadProjectArchive(session: ExportSession, files: ExportFile[], options?: ArchiveOptions) {
+  const archive = buildProjectArchive(session, files, options)
+  downloadBlob(new Blob([archive], { type: 'application/zip' }), `${slugify(session.name)}.zip`)
+}
+
+// A single file is downloaded as itself, under its own name
+export function downloadFile(file: ExportFile) {
+  downloadBlob(new Blob([file.content], { type: 'text/plain' }), baseName(file.filename))
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,171 @@
+import { normalizePath } from '../fileTree'
+import { slugify } from './paths'
+import type { ExportFile, ExportSession, GeneratedFile } from './types'
+
+const JS_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx']
+const TS_EXTENSIONS = ['.ts', '.tsx']
+
+// A top-level import or export statement, as opposed to import() or require()
+const ESM_PATTERN = /^[ \t]*(import[ \t]*[\w$*{'"]|export[ \t]+(default|const|let|var|function|class|async|\{|\*))/m
+
+const JS_IMPORT_PATTERNS = [
+  /\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?(['"])([^'"\n]+)\1/g,
+  /\bexport\s*(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(['"])([^'"\n]+)\1/g,
+  /\b(?:require|import)\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g,
+]
+
+const NODE_BUILTINS = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'constants', 'crypto',
+  'dgram', 'diagnostics_channel', 'dns', 'domain', 'events', 'fs', 'http', 'http2', 'https',
+  'inspector', 'module', 'net', 'os', 'path', 'perf_hooks', 'process', 'punycode', 'querystring',
+  'readline', 'repl', 'stream', 'string_decoder', 'sys', 'timers', 'tls', 'trace_events', 'tty',
+  'url', 'util', 'v8', 'vm', 'wasi', 'worker_threads', 'zlib',
+])
+
+const PYTHON_IMPORT_PATTERNS = [
+  /^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm,
+  /^[ \t]*from[ \t]+([\w.]+)[ \t]+import\b/gm,
+]
+
+// Modules that ship with Python, so they never belong in requirements.txt
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'base64', 'binascii', 'bisect',
+  'builtins', 'bz2', 'calendar', 'cmath', 'cmd', 'codecs', 'collections', 'colorsys', 'concurrent',
+  'configparser', 'contextlib', 'contextvars', 'copy', 'csv', 'ctypes', 'dataclasses', 'datetime',
+  'decimal', 'difflib', 'dis', 'email', 'enum', 'errno', 'faulthandler', 'fileinput', 'fnmatch',
+  'fractions', 'ftplib', 'functools', 'gc', 'getpass', 'gettext', 'glob', 'graphlib', 'gzip',
+  'hashlib', 'heapq', 'hmac', 'html', 'http', 'imaplib', 'importlib', 'inspect', 'io', 'ipaddress',
+  'itertools', 'json', 'keyword', 'linecache', 'locale', 'logging', 'lzma', 'mailbox', 'math',
+  'mimetypes', 'multiprocessing', 'numbers', 'operator', 'os', 'pathlib', 'pdb', 'pickle',
+  'pkgutil', 'platform', 'plistlib', 'pprint', 'profile', 'pstats', 'queue', 'random', 're',
+  'reprlib', 'sched', 'secrets', 'select', 'selectors', 'shelve', 'shlex', 'shutil', 'signal',
+  'site', 'smtplib', 'socket', 'socketserver', 'sqlite3', 'ssl', 'stat', 'statistics', 'string',
+  'struct', 'subprocess', 'sys', 'sysconfig', 'tarfile', 'tempfile', 'textwrap', 'threading',
+  'time', 'timeit', 'tkinter', 'token', 'tokenize', 'tomllib', 'traceback', 'turtle', 'types',
+  'typing', 'unicodedata', 'unittest', 'urllib', 'uuid', 'venv', 'warnings', 'wave', 'weakref',
+  'webbrowser', 'wsgiref', 'xml', 'xmlrpc', 'zipfile', 'zipimport', 'zlib', 'zoneinfo',
+])
+
+// Import names that differ from the name the package is installed under
+const PYPI_NAMES: Record<string, string> = {
+  bs4: 'beautifulsoup4',
+  cv2: 'opencv-python',
+  dateutil: 'python-dateutil',
+  dotenv: 'python-dotenv',
+  jwt: 'PyJWT',
+  PIL: 'Pillow',
+  sklearn: 'scikit-learn',
+  yaml: 'PyYAML',
+}
+
+// Entry points tried in order when the project has no obvious main file. For
+// JavaScript only these count, since node cannot start a .ts, .jsx or
+// arbitrary module; Python falls back to the first file.
+const JS_ENTRY_NAMES = ['index.js', 'main.js', 'server.js', 'app.js', 'index.mjs', 'main.mjs', 'server.mjs']
+const PYTHON_ENTRY_NAMES = ['main.py', 'app.py', '__main__.py', 'run.py']
+
+export function isJavaScriptFile(filename: string) {
+  return JS_EXTENSIONS.some(ext => filename.endsWith(ext))
+}
+
+export function isTypeScriptFile(filename: string) {
+  return TS_EXTENSIONS.some(ext => filename.endsWith(ext))
+}
+
+// Whether the plain .js files are ES modules, so package.json needs
+// "type": "module"; .mjs and .cjs files say so themselves
+export function usesEsm(files: ExportFile[]) {
+  return files.some(f => /\.jsx?$/.test(f.filename) && ESM_PATTERN.test(f.content))
+}
+
+export function isPythonFile(filename: string) {
+  return filename.endsWith('.py')
+}
+
+// The file to start the project from, if one can be guessed
+export function findEntry(files: ExportFile[], language: 'javascript' | 'python') {
+  const names = language === 'python' ? PYTHON_ENTRY_NAMES : JS_ENTRY_NAMES
+  const matches = language === 'python' ? isPythonFile : isJavaScriptFile
+  const paths = files.map(f => normalizePath(f.filename)).filter(matches)
+
+  for (const name of names) {
+    const entry = paths.find(path => path === name || path.endsWith(`/${name}`))
+    if (entry) return entry
+  }
+  return language === 'python' ? paths[0] ?? null : null
+}
+
+// Packages imported by bare specifier, such as "express" or "@scope/pkg/sub"
+export function findNpmPackages(files: ExportFile[]) {
+  const packages = new Set<string>()
+
+  for (const file of files.filter(f => isJavaScriptFile(f.filename))) {
+    for (const pattern of JS_IMPORT_PATTERNS) {
+      for (const match of file.content.matchAll(pattern)) {
+        const specifier = match[2]
+        if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('node:')) continue
+
+        const parts = specifier.split('/')
+        const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]
+        if (!NODE_BUILTINS.has(name)) packages.add(name)
+      }
+    }
+  }
+
+  return [...packages].sort()
+}
+
+// Third-party modules imported by the Python files, under their PyPI names
+export function findPythonPackages(files: ExportFile[]) {
+  const pythonFiles = files.filter(f => isPythonFile(f.filename))
+  // Modules and packages that are part of the project itself
+  const local = new Set(pythonFiles.map(f => normalizePath(f.filename).split('/')[0].replace(/\.py$/, '')))
+  const packages = new Set<string>()
+
+  for (const file of pythonFiles) {
+    for (const pattern of PYTHON_IMPORT_PATTERNS) {
+      for (const match of file.content.matchAll(pattern)) {
+        for (const clause of match[1].split(',')) {
+          const module = clause.trim().split(/\s+/)[0].split('.')[0]
+          if (!module || PYTHON_STDLIB.has(module) || local.has(module)) continue
+          packages.add(PYPI_NAMES[module] ?? module)
+        }
+      }
+    }
+  }
+
+  return [...packages].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
+}
+
+// package.json and requirements.txt for the exported files. Versions are left
+// open, since nothing in the session pins them; a manifest the session
+// already has is never replaced.
+export function inferManifests(session: ExportSession, files: ExportFile[]): GeneratedFile[] {
+  const existing = new Set(files.map(f => normalizePath(f.filename)))
+  const manifests: GeneratedFile[] = []
+
+  if (files.some(f => isJavaScriptFile(f.filename)) && !existing.has('package.json')) {
+    const entry = findEntry(files, 'javascript')
+    const dependencies = Object.fromEntries(findNpmPackages(files).map(name => [name, '*']))
+    const packageJson = {
+      name: slugify(session.name),
+      version: '0.1.0',
+      private: true,
+      ...(usesEsm(files) ? { type: 'module' } : {}),
+      ...(session.description ? { description: session.description } : {}),
+      ...(entry ? { main: entry, scripts: { start: `node ${entry}` } } : {}),
+      dependencies,
+      ...(files.some(f => isTypeScriptFile(f.filename)) && !dependencies.typescript
+        ? { devDependencies: { typescript: '*' } }
+        : {}),
+    }
+    manifests.push({ filename: 'package.json', content: JSON.stringify(packageJson, null, 2) + '\n' })
+  }
+
+  const pythonPackages = findPythonPackages(files)
+  if (pythonPackages.length && !existing.has('requirements.txt')) {
+    manifests.push({ filename: 'requirements.txt', content: pythonPackages.join('\n') + '\n' })
+  }
+
+  return manifests
+}
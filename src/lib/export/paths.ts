@@ -0,0 +1,13 @@
+import { normalizePath } from '../fileTree'
+
+export function baseName(filename: string) {
+  return normalizePath(filename).split('/').pop() || 'file'
+}
+
+// A name that is safe as a folder, a file and an npm package name
+export function slugify(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'project'
+}
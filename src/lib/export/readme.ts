@@ -0,0 +1,47 @@
+import { findEntry, isJavaScriptFile, isPythonFile } from './manifest'
+import { normalizePath } from '../fileTree'
+import type { ExportFile, ExportSession, GeneratedFile } from './types'
+
+// A README describing the session and how to run what was exported
+export function buildReadme(session: ExportSession, files: ExportFile[], manifests: GeneratedFile[]): string {
+  const paths = new Set([...files.map(f => normalizePath(f.filename)), ...manifests.map(m => m.filename)])
+  const lines = [`# ${session.name}`, '']
+
+  if (session.description) {
+    lines.push(session.description, '')
+  }
+  lines.push(`Exported from CodexOrb on ${new Date().toLocaleDateString()}.`, '')
+
+  lines.push('## Files', '', '| File | Language | Health |', '| --- | --- | --- |')
+  for (const file of files) {
+    const health = file.health_score === undefined ? '–' : `${file.health_score}%`
+    lines.push(`| \`${normalizePath(file.filename)}\` | ${file.language} | ${health} |`)
+  }
+  lines.push('')
+
+  const setup: string[] = []
+  const jsEntry = files.some(f => isJavaScriptFile(f.filename)) ? findEntry(files, 'javascript') : null
+  const pythonEntry = files.some(f => isPythonFile(f.filename)) ? findEntry(files, 'python') : null
+
+  if (jsEntry) {
+    if (paths.has('package.json')) setup.push('npm install')
+    setup.push(`node ${jsEntry}`)
+  }
+  if (pythonEntry) {
+    if (paths.has('requirements.txt')) setup.push('pip install -r requirements.txt')
+    setup.push(`python ${pythonEntry}`)
+  }
+
+  if (setup.length) {
+    lines.push('## Getting started', '', '```sh', ...setup, '```', '')
+  }
+
+  if (manifests.length) {
+    lines.push(
+      `${manifests.map(m => `\`${m.filename}\``).join(' and ')} ${manifests.length === 1 ? 'was' : 'were'} inferred from the imports in the code, without versions; pin them before relying on the project.`,
+      ''
+    )
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,18 @@
+export interface ExportFile {
+  filename: string
+  content: string
+  language: string
+  health_score?: number
+  updated_at?: string
+}
+
+export interface ExportSession {
+  name: string
+  description?: string | null
+  language: string
+}
+
+export interface GeneratedFile {
+  filename: string
+  content: string
+}
@@ -0,0 +1,96 @@
+// Files are stored with relative paths (`src/routes/auth.js`); folders exist
+// only as the directories of those paths.
+
+export interface TreeFolder<T> {
+  name: string
+  // Full path of the folder, '' for the root
+  path: string
+  folders: TreeFolder<T>[]
+  files: T[]
+}
+
+// Same rules as normalize_file_path in the database: slashes only, and no
+// empty, "." or ".." segments
+export function normalizePath(path: string) {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/')
+}
+
+export function basename(path: string) {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+export function dirname(path: string) {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+export function joinPath(folder: string, name: string) {
+  return folder ? `${folder}/${name}` : name
+}
+
+export function isInFolder(path: string, folder: string) {
+  return folder === '' || path.startsWith(`${folder}/`)
+}
+
+// Why a file cannot be given this path, if it cannot. `taken` holds the paths
+// of the other files in the session.
+export function pathError(path: string, taken: Iterable<string>) {
+  const normalized = normalizePath(path)
+  if (!normalized) return 'Enter a file name'
+
+  for (const other of taken) {
+    if (other === normalized) return `${normalized} already exists`
+    if (isInFolder(other, normalized)) return `${normalized} is a folder`
+    if (isInFolder(normalized, other)) return `${other} is a file, not a folder`
+  }
+  return null
+}
+
+// A free path next to `path` for a copy of it: utils.js becomes
+// utils-copy.js, then utils-copy-2.js
+export function copyPath(path: string, taken: Iterable<string>) {
+  const used = new Set(taken)
+  const name = basename(path)
+  const dot = name.lastIndexOf('.')
+  const stem = path.slice(0, path.length - name.length + (dot > 0 ? dot : name.length))
+  const extension = path.slice(stem.length)
+
+  let candidate = `${stem}-copy${extension}`
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${stem}-copy-${n}${extension}`
+  }
+  return candidate
+}
+
+// Nests files by directory, folders first and both sorted by name
+export function buildFileTree<T extends { filename: string }>(files: T[]): TreeFolder<T> {
+  const root: TreeFolder<T> = { name: '', path: '', folders: [], files: [] }
+
+  for (const file of files) {
+    let folder = root
+    const parts = file.filename.split('/')
+    for (const part of parts.slice(0, -1)) {
+      let child = folder.folders.find(f => f.name === part)
+      if (!child) {
+        child = { name: part, path: joinPath(folder.path, part), folders: [], files: [] }
+        folder.folders.push(child)
+      }
+      folder = child
+    }
+    folder.files.push(file)
+  }
+
+  const sort = (folder: TreeFolder<T>) => {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name))
+    folder.files.sort((a, b) => a.filename.localeCompare(b.filename))
+    folder.folders.forEach(sort)
+  }
+  sort(root)
+
+  return root
+}
@@ -0,0 +1,188 @@
+import { unzipSync } from 'fflate'
+import { normalizePath } from '../fileTree'
+import { detectLanguage } from '../languages'
+
+export interface ImportedFile {
+  filename: string
+  content: string
+  language: string
+}
+
+export interface SkippedFile {
+  path: string
+  reason: string
+}
+
+export interface ImportResult {
+  files: ImportedFile[]
+  skipped: SkippedFile[]
+}
+
+// A file found in the drop, read only once it is known to be wanted
+interface Source {
+  path: string
+  size: number
+  read: () => Promise<Uint8Array>
+}
+
+export const MAX_IMPORT_FILES = 200
+export const MAX_IMPORT_FILE_BYTES = 512 * 1024
+
+// Dependencies, build output and tool state are rebuilt from the sources
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', '.git', '.svn', '.hg', '__pycache__', '.venv', 'venv', 'env',
+  'dist', 'build', '.next', '.cache', '.idea', '.vscode', '.pytest_cache', '.mypy_cache',
+])
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'])
+
+// Reads what was dropped on the editor: files, folders (walked recursively)
+// and ZIP archives (unpacked). Binary, oversized and ignored files are left
+// out and reported, and a single folder wrapping everything is dropped from
+// the paths, so importing "my-app/" or "my-app.zip" gives "src/index.js".
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<ImportResult> {
+  const entries = [...dataTransfer.items]
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+
+  // Without entry support only the top-level files are available
+  if (entries.some(entry => entry === null)) {
+    return readFileList([...dataTransfer.files])
+  }
+
+  const sources: Source[] = []
+  for (const entry of entries) {
+    await collectEntry(entry!, '', sources)
+  }
+  return readSources(sources)
+}
+
+// Reads files picked with a file input; ZIP archives are unpacked
+export function readFileList(files: File[]): Promise<ImportResult> {
+  return readSources(files.map(file => fileSource(file.webkitRelativePath || file.name, file)))
+}
+
+async function collectEntry(entry: FileSystemEntry, parent: string, sources: Source[]) {
+  const path = parent ? `${parent}/${entry.name}` : entry.name
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    sources.push(fileSource(path, file))
+    return
+  }
+
+  if (IGNORED_DIRECTORIES.has(entry.name)) return
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  // readEntries returns the directory in batches until it returns none
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    for (const child of batch) {
+      await collectEntry(child, path, sources)
+    }
+  }
+}
+
+function fileSource(path: string, file: File): Source {
+  return {
+    path,
+    size: file.size,
+    read: async () => new Uint8Array(await file.arrayBuffer())
+  }
+}
+
+async function readSources(sources: Source[]): Promise<ImportResult> {
+  const expanded: Source[] = []
+  const skipped: SkippedFile[] = []
+
+  for (const source of sources) {
+    if (!source.path.toLowerCase().endsWith('.zip')) {
+      expanded.push(source)
+      continue
+    }
+
+    try {
+      // Entries are judged on their headers before anything is inflated, so a
+      // small archive that unpacks to gigabytes never reaches memory; fflate
+      // inflates into a buffer of the declared size, so a header that lies
+      // about it cannot get around the limit
+      const rejected: SkippedFile[] = []
+      let accepted = 0
+      const archive = unzipSync(await source.read(), {
+        filter: (entry) => {
+          if (entry.name.endsWith('/')) return false
+          const path = normalizePath(entry.name)
+          const reason = skipReason(path, entry.originalSize) ??
+            (expanded.length + accepted >= MAX_IMPORT_FILES ? `more than ${MAX_IMPORT_FILES} files` : null)
+          if (reason) {
+            rejected.push({ path, reason })
+            return false
+          }
+          accepted++
+          return true
+        }
+      })
+      skipped.push(...rejected)
+      for (const [path, data] of Object.entries(archive)) {
+        expanded.push({ path, size: data.length, read: () => Promise.resolve(data) })
+      }
+    } catch {
+      skipped.push({ path: source.path, reason: 'not a readable ZIP archive' })
+    }
+  }
+
+  const files = new Map<string, ImportedFile>()
+  for (const source of expanded) {
+    const path = normalizePath(source.path)
+    const reason = skipReason(path, source.size)
+    if (reason) {
+      skipped.push({ path, reason })
+      continue
+    }
+    if (files.size >= MAX_IMPORT_FILES && !files.has(path)) {
+      skipped.push({ path, reason: `more than ${MAX_IMPORT_FILES} files` })
+      continue
+    }
+
+    const content = decodeText(await source.read())
+    if (content === null) {
+      skipped.push({ path, reason: 'binary file' })
+      continue
+    }
+    files.set(path, { filename: path, content, language: detectLanguage(path, content) })
+  }
+
+  return { files: stripCommonRoot([...files.values()]), skipped }
+}
+
+function skipReason(path: string, size: number) {
+  const parts = path.split('/')
+  const name = parts[parts.length - 1]
+
+  if (!path) return 'invalid path'
+  if (parts.slice(0, -1).some(part => IGNORED_DIRECTORIES.has(part)) || IGNORED_FILES.has(name)) return 'ignored'
+  if (name === '.env' || (name.startsWith('.env.') && name !== '.env.example')) return 'may contain secrets'
+  if (size > MAX_IMPORT_FILE_BYTES) return `larger than ${MAX_IMPORT_FILE_BYTES / 1024} KB`
+  return null
+}
+
+// Text is valid UTF-8 without NUL bytes; anything else is treated as binary
+function decodeText(bytes: Uint8Array) {
+  if (bytes.subarray(0, 8000).includes(0)) return null
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+function stripCommonRoot(files: ImportedFile[]) {
+  const roots = new Set(files.map(f => f.filename.split('/')[0]))
+  const nested = files.every(f => f.filename.includes('/'))
+  if (roots.size !== 1 || !nested) return files
+
+  return files.map(f => {
+    const filename = f.filename.slice(f.filename.indexOf('/') + 1)
+    return { ...f, filename }
+  })
+}
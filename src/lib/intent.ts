@@ -0,0 +1,82 @@
+export type Intent = 'question' | 'new_code' | 'modify_code' | 'run' | 'meta'
+
+export interface IntentResult {
+  intent: Intent
+  // File a modify/run request applies to, when one can be identified
+  targetFileId?: string
+}
+
+interface FileRef {
+  id: string
+  filename: string
+}
+
+// "Try it" runs the code, "try building a todo app" asks for one
+const RUN_PATTERN = /^(please\s+)?(run|execute)\b|^(please\s+)?(test|try)\s+(it|this|that|the (code|file|script|program))\b|\b(run|execute)\s+(it|this|the (code|file|tests?|script))\b/i
+const META_PATTERN = /^(help|\/help)\b|\bwhat can you do\b|\b(list|show)( me)? (the |all )?files\b|\bwho('s| is) (in|on) (this|the) session\b|\bwhat files\b/i
+const CREATE_PATTERN = /\b(create|creating|build|building|make|making|write|writing|generate|generating|implement|scaffold|set up|setup|start)\b|\badd (a|an) new\b|\bnew (file|project|app|module|component)\b/i
+const MODIFY_PATTERN = /\b(add|change|fix|refactor|update|modify|rename|remove|delete|improve|optimi[sz]e|rewrite|convert|extend|replace|clean up|handle|validate)\b/i
+// "Add a login page" names something new, unless it goes into a given file
+const ADD_PATTERN = /\badd (a|an)\s+\w+/i
+const QUESTION_PATTERN = /\?\s*$|^(what|why|how|explain|describe|does|do|did|can|could|is|are|should|would|where|when|which|who|tell me)\b/i
+
+// Decides which pipeline a chat message should go through. Rules are checked
+// from the most to the least specific; anything unclear is treated as a
+// question so a stray message never produces a file.
+export function classifyIntent(message: string, files: FileRef[]): IntentResult {
+  const text = message.trim()
+  const mentioned = findMentionedFile(text, files)
+  // "Can you build ...?" is a request, not a question
+  const isRequest = /^(please|(can|could|would|will) you)\b/i.test(text) || !QUESTION_PATTERN.test(text)
+
+  if (RUN_PATTERN.test(text)) {
+    return { intent: 'run', targetFileId: mentioned?.id ?? files[0]?.id }
+  }
+
+  if (META_PATTERN.test(text)) {
+    return { intent: 'meta' }
+  }
+
+  // "Add validation to calculator.py" edits; "create a calculator" builds
+  if (mentioned && MODIFY_PATTERN.test(text) && !/\b(new file|from scratch)\b/i.test(text)) {
+    return { intent: 'modify_code', targetFileId: mentioned.id }
+  }
+
+  if (CREATE_PATTERN.test(text) && isRequest) {
+    return { intent: 'new_code' }
+  }
+
+  // Without a file named, only a session's single file is an obvious target
+  if (MODIFY_PATTERN.test(text) && isRequest && files.length === 1) {
+    return { intent: 'modify_code', targetFileId: files[0].id }
+  }
+
+  if (ADD_PATTERN.test(text) && isRequest) {
+    return { intent: 'new_code' }
+  }
+
+  return { intent: 'question', targetFileId: mentioned?.id }
+}
+
+// Matches a path, a bare filename or a filename without its extension ("the
+// utils module"). Longest filename wins so "utils.test.js" beats "utils.js".
+function findMentionedFile(text: string, files: FileRef[]) {
+  const lower = text.toLowerCase()
+  const words = new Set(lower.split(/[^a-z0-9_-]+/))
+  return [...files]
+    .filter(f => {
+      const name = f.filename.toLowerCase()
+      const basename = name.split('/').pop()!
+      const stem = basename.replace(/\.[^.]+$/, '')
+      return lower.includes(name) || lower.includes(basename) || (stem.length >= 3 && words.has(stem))
+    })
+    .sort((a, b) => b.filename.length - a.filename.length)[0]
+}
+
+export const INTENT_LABELS: Record<Intent, string> = {
+  question: 'Ask',
+  new_code: 'Build',
+  modify_code: 'Edit',
+  run: 'Run',
+  meta: 'Session',
+}
@@ -0,0 +1,15 @@
+// The language registry lives with the edge functions so both sides share
+// one copy; see supabase/functions/_shared/language-registry.ts
+import { getLanguage } from '../../supabase/functions/_shared/language-registry'
+
+export {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  detectLanguage,
+  getLanguage,
+  type LanguageDefinition
+} from '../../supabase/functions/_shared/language-registry'
+
+export function languageLabel(id: string) {
+  return getLanguage(id)?.label ?? id
+}
@@ -0,0 +1,19 @@
+// The role matrix lives with the edge functions so both sides share one
+// copy; see supabase/functions/_shared/session-roles.ts
+import type { SessionRole } from '../../supabase/functions/_shared/session-roles'
+
+export {
+  PERMISSIONS,
+  SESSION_ROLES,
+  can,
+  type SessionAction,
+  type SessionRole
+} from '../../supabase/functions/_shared/session-roles'
+
+export const ROLE_LABELS: Record<SessionRole, string> = {
+  owner: 'Owner',
+  developer: 'Developer',
+  designer: 'Designer',
+  qa: 'QA',
+  viewer: 'Viewer',
+}
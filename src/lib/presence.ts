@@ -0,0 +1,31 @@
+// Colours for other people's avatars and cursors. The editor decorations use
+// the matching `.remote-cursor-<n>` and `.remote-selection-<n>` classes in
+// index.css, so the two lists must stay in the same order.
+export const PRESENCE_COLORS = [
+  '#ef4444',
+  '#f59e0b',
+  '#10b981',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#14b8a6',
+  '#f97316',
+]
+
+// Stable per user, so someone keeps their colour across reloads
+export function presenceColorIndex(userId: string) {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash) % PRESENCE_COLORS.length
+}
+
+export function presenceColor(userId: string) {
+  return PRESENCE_COLORS[presenceColorIndex(userId)]
+}
+
+export function initials(name: string) {
+  const parts = name.split(/[\s._-]+/).filter(Boolean)
+  return ((parts[0]?.[0] ?? '?') + (parts[1]?.[0] ?? '')).toUpperCase()
+}
@@ -0,0 +1,30 @@
+import { useParams } from 'react-router-dom'
+import type { WorkspaceTab } from '../store/useAppStore'
+
+const WORKSPACE_TABS: readonly WorkspaceTab[] = ['chat', 'code', 'sculpture', 'dashboard']
+
+// The URL of a session, one of its tabs, or a file open in the code tab
+export function sessionPath(sessionId: string, tab: WorkspaceTab = 'chat', fileId?: string | null) {
+  const path = `/session/${sessionId}/${tab}`
+  return tab === 'code' && fileId ? `${path}/${fileId}` : path
+}
+
+export interface WorkspaceRoute {
+  sessionId: string | null
+  // Null when the URL names no tab, or one that does not exist
+  tab: WorkspaceTab | null
+  fileId: string | null
+}
+
+// Reads the session, tab and file out of a /session/:sessionId/* URL
+export function useWorkspaceRoute(): WorkspaceRoute {
+  const { sessionId, '*': rest = '' } = useParams()
+  const [tab, fileId] = rest.split('/')
+  const knownTab = WORKSPACE_TABS.find(t => t === tab) ?? null
+
+  return {
+    sessionId: sessionId ?? null,
+    tab: knownTab,
+    fileId: knownTab === 'code' && fileId ? fileId : null
+  }
+}
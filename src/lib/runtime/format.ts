@@ -0,0 +1,68 @@
+const MAX_DEPTH = 3
+const MAX_ENTRIES = 50
+const MAX_STRING = 10_000
+
+// Renders values the way a browser console would, but as plain text so the
+// output can cross the worker boundary and be shown in the output panel.
+export function formatValue(value: unknown, depth = 0, seen = new WeakSet<object>()): string {
+  if (typeof value === 'string') {
+    const text = value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value
+    return depth === 0 ? text : JSON.stringify(text)
+  }
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value === 'symbol') return value.toString()
+  if (typeof value === 'function') return value.name ? `[Function: ${value.name}]` : '[Function (anonymous)]'
+  if (value === null || typeof value !== 'object') return String(value)
+
+  if (value instanceof Error) {
+    return value.stack?.includes(value.message) ? value.stack : `${value.name}: ${value.message}`
+  }
+  if (value instanceof Date) return value.toISOString()
+  if (value instanceof RegExp) return value.toString()
+  if (value instanceof Promise) return 'Promise { … }'
+
+  if (seen.has(value)) return '[Circular]'
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]'
+  seen.add(value)
+
+  try {
+    const inner = (v: unknown) => formatValue(v, depth + 1, seen)
+
+    if (Array.isArray(value)) {
+      return `[${listEntries(value.slice(0, MAX_ENTRIES).map(inner), value.length)}]`
+    }
+    if (value instanceof Map) {
+      const entries = [...value].slice(0, MAX_ENTRIES).map(([k, v]) => `${inner(k)} => ${inner(v)}`)
+      return `Map(${value.size}) {${wrap(listEntries(entries, value.size))}}`
+    }
+    if (value instanceof Set) {
+      const entries = [...value].slice(0, MAX_ENTRIES).map(inner)
+      return `Set(${value.size}) {${wrap(listEntries(entries, value.size))}}`
+    }
+
+    const keys = Object.keys(value)
+    const entries = keys.slice(0, MAX_ENTRIES).map(key => `${formatKey(key)}: ${inner((value as Record<string, unknown>)[key])}`)
+    const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : ''
+    return `${name}{${wrap(listEntries(entries, keys.length))}}`
+  } finally {
+    seen.delete(value)
+  }
+}
+
+export function formatArgs(args: unknown[]) {
+  return args.map(arg => formatValue(arg)).join(' ')
+}
+
+function listEntries(entries: string[], total: number) {
+  const shown = entries.slice(0, MAX_ENTRIES)
+  if (total > MAX_ENTRIES) shown.push(`… ${total - MAX_ENTRIES} more`)
+  return shown.join(', ')
+}
+
+function wrap(inner: string) {
+  return inner ? ` ${inner} ` : ''
+}
+
+function formatKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
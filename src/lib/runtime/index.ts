@@ -0,0 +1,87 @@
+import { getLanguage } from '../languages'
+import { buildModuleGraph } from './moduleGraph'
+import { runPython } from './python'
+import type { SandboxMessage, SandboxRequest } from './sandbox.worker'
+import type { OutputLine, RunOptions, RunResult, RunnableFile } from './types'
+
+export type { OutputLine, OutputStream, RunOptions, RunResult, RunStatus, RunnableFile, SourceLocation } from './types'
+export { isRunnableModule } from './moduleGraph'
+
+export const DEFAULT_TIMEOUT_MS = 10_000
+
+export function canRun(file: RunnableFile) {
+  return getLanguage(file.language)?.runner !== undefined
+}
+
+// Runs a session file with the other session files available to import
+export function runFile(files: RunnableFile[], filename: string, options: RunOptions = {}): Promise<RunResult> {
+  const file = files.find(f => f.filename === filename)
+  const runner = file && getLanguage(file.language)?.runner
+  if (runner === 'javascript') {
+    return runJavaScript(files, filename, options)
+  }
+  if (runner === 'python') {
+    return runPython(files, filename, { ...options, timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS })
+  }
+
+  const output = [{ stream: 'stderr' as const, text: `Running ${file?.language ?? 'this'} files is not supported yet`, time: 0 }]
+  output.forEach(line => options.onOutput?.(line))
+  return Promise.resolve({ status: 'error', output, durationMs: 0 })
+}
+
+// Executes an ES module in a dedicated Web Worker, so session code has no
+// access to the page, and terminates the worker when the time limit is hit.
+export function runJavaScript(files: RunnableFile[], entry: string, { timeoutMs = DEFAULT_TIMEOUT_MS, onOutput }: RunOptions = {}): Promise<RunResult> {
+  const started = performance.now()
+  const output: OutputLine[] = []
+  const emit = (stream: OutputLine['stream'], text: string) => {
+    const line = { stream, text, time: Math.round(performance.now() - started) }
+    output.push(line)
+    onOutput?.(line)
+  }
+  const finish = (status: RunResult['status']): RunResult => ({
+    status,
+    output,
+    durationMs: Math.round(performance.now() - started)
+  })
+
+  let request: SandboxRequest
+  try {
+    request = { modules: buildModuleGraph(files, entry), entry }
+  } catch (error) {
+    emit('stderr', error instanceof Error ? error.message : String(error))
+    return Promise.resolve(finish('error'))
+  }
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./sandbox.worker.ts', import.meta.url), { type: 'module' })
+
+    const done = (status: RunResult['status']) => {
+      clearTimeout(timer)
+      worker.terminate()
+      resolve(finish(status))
+    }
+
+    const timer = setTimeout(() => {
+      emit('system', `Stopped after ${timeoutMs / 1000}s time limit`)
+      done('timeout')
+    }, timeoutMs)
+
+    worker.addEventListener('message', (event: MessageEvent<SandboxMessage>) => {
+      const message = event.data
+      if (message.type === 'output') {
+        emit(message.stream, message.text)
+      } else {
+        emit('system', `Finished in ${Math.round(performance.now() - started)}ms`)
+        done(message.status)
+      }
+    })
+
+    worker.addEventListener('error', (event) => {
+      emit('stderr', event.message || 'The sandbox failed to start')
+      done('error')
+    })
+
+    worker.postMessage(request)
+  })
+}
@@ -0,0 +1,113 @@
+import type { RunnableFile } from './types'
+
+export interface ImportSite {
+  // Offsets of the specifier inside the quotes
+  start: number
+  end: number
+  specifier: string
+  resolved: string
+}
+
+export interface ModuleSource {
+  path: string
+  code: string
+  imports: ImportSite[]
+}
+
+const RUNNABLE_EXTENSIONS = ['.js', '.mjs']
+const RESOLVE_SUFFIXES = ['', '.js', '.mjs', '/index.js', '/index.mjs']
+
+// Static imports, re-exports and dynamic imports with a literal specifier.
+// This is a scan rather than a parse, so an import written inside a string or
+// comment is also picked up; that only matters if it names a missing file.
+const IMPORT_PATTERNS = [
+  /\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?(['"])([^'"\n]+)\1/g,
+  /\bexport\s*(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(['"])([^'"\n]+)\1/g,
+  /\bimport\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g,
+]
+
+export function isRunnableModule(filename: string) {
+  return RUNNABLE_EXTENSIONS.some(ext => filename.endsWith(ext))
+}
+
+// Collects the entry file and everything it imports, ordered so that every
+// module comes after its dependencies. Workers load each module from a blob
+// URL that must exist before its importers are created, so cycles are errors.
+export function buildModuleGraph(files: RunnableFile[], entry: string): ModuleSource[] {
+  const byPath = new Map(files.map(f => [normalize(f.filename), f]))
+  const ordered: ModuleSource[] = []
+  const visited = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (path: string) => {
+    if (visited.has(path)) return
+
+    const cycleStart = stack.indexOf(path)
+    if (cycleStart >= 0) {
+      throw new Error(`Circular import: ${[...stack.slice(cycleStart), path].join(' → ')}`)
+    }
+
+    const file = byPath.get(path)!
+    if (!isRunnableModule(path)) {
+      throw new Error(`${path} cannot be run in the sandbox (supported: ${RUNNABLE_EXTENSIONS.join(', ')})`)
+    }
+
+    stack.push(path)
+    const imports = findImports(file.content).map(site => {
+      const resolved = resolve(path, site.specifier, byPath)
+      visit(resolved)
+      return { ...site, resolved }
+    })
+    stack.pop()
+
+    visited.add(path)
+    ordered.push({ path, code: file.content, imports })
+  }
+
+  const entryPath = normalize(entry)
+  if (!byPath.has(entryPath)) {
+    throw new Error(`${entry} is not a file in this session`)
+  }
+  visit(entryPath)
+
+  return ordered
+}
+
+function findImports(code: string): Array<Omit<ImportSite, 'resolved'>> {
+  const sites = new Map<number, Omit<ImportSite, 'resolved'>>()
+
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      const specifier = match[2]
+      const start = match.index! + match[0].lastIndexOf(match[1] + specifier) + 1
+      sites.set(start, { start, end: start + specifier.length, specifier })
+    }
+  }
+
+  return [...sites.values()].sort((a, b) => a.start - b.start)
+}
+
+function resolve(importer: string, specifier: string, files: Map<string, RunnableFile>) {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../') && !specifier.startsWith('/')) {
+    throw new Error(`${importer} imports '${specifier}', but packages are not available in the sandbox; only session files can be imported`)
+  }
+
+  const base = specifier.startsWith('/') ? '' : importer.split('/').slice(0, -1).join('/')
+  const target = normalize(`${base}/${specifier}`)
+
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (files.has(target + suffix)) return target + suffix
+  }
+
+  throw new Error(`${importer} imports '${specifier}', which is not a file in this session`)
+}
+
+function normalize(path: string) {
+  const parts: string[] = []
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (!part || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
@@ -0,0 +1,85 @@
+import type { PythonMessage, PythonRequest } from './python.worker'
+import type { OutputLine, RunOptions, RunResult, RunnableFile } from './types'
+
+// Loading the runtime takes a few seconds the first time and does not count
+// towards a program's time limit
+const LOAD_TIMEOUT_MS = 60_000
+
+// Kept between runs so the runtime only loads once; replaced after a timeout
+let worker: Worker | null = null
+
+export function runPython(
+  files: RunnableFile[],
+  entry: string,
+  { timeoutMs, stdin, onOutput }: RunOptions & { timeoutMs: number }
+): Promise<RunResult> {
+  const started = performance.now()
+  const output: OutputLine[] = []
+  const emit = (line: Omit<OutputLine, 'time'>) => {
+    const stamped = { ...line, time: Math.round(performance.now() - started) }
+    output.push(stamped)
+    onOutput?.(stamped)
+  }
+  const finish = (status: RunResult['status']): RunResult => ({
+    status,
+    output,
+    durationMs: Math.round(performance.now() - started)
+  })
+
+  if (!worker) {
+    worker = new Worker(new URL('./python.worker.ts', import.meta.url), { type: 'module' })
+    emit({ stream: 'system', text: 'Loading Python runtime...' })
+  }
+  const current = worker
+
+  return new Promise((resolve) => {
+    let timer = setTimeout(() => stop('Python runtime did not load in time'), LOAD_TIMEOUT_MS)
+
+    const cleanup = () => {
+      clearTimeout(timer)
+      current.removeEventListener('message', handleMessage)
+      current.removeEventListener('error', handleError)
+    }
+
+    // A program that will not finish can only be stopped with the worker
+    const stop = (reason: string) => {
+      cleanup()
+      current.terminate()
+      if (worker === current) worker = null
+      emit({ stream: 'system', text: reason })
+      resolve(finish('timeout'))
+    }
+
+    const handleMessage = (event: MessageEvent<PythonMessage>) => {
+      const message = event.data
+      if (message.type === 'running') {
+        clearTimeout(timer)
+        timer = setTimeout(() => stop(`Stopped after ${timeoutMs / 1000}s time limit`), timeoutMs)
+      } else if (message.type === 'output') {
+        emit({ stream: message.stream, text: message.text, location: message.location })
+      } else {
+        cleanup()
+        emit({ stream: 'system', text: `Finished in ${Math.round(performance.now() - started)}ms` })
+        resolve(finish(message.status))
+      }
+    }
+
+    const handleError = (event: ErrorEvent) => {
+      cleanup()
+      current.terminate()
+      if (worker === current) worker = null
+      emit({ stream: 'stderr', text: event.message || 'The Python runtime failed to start' })
+      resolve(finish('error'))
+    }
+
+    current.addEventListener('message', handleMessage)
+    current.addEventListener('error', handleError)
+
+    const request: PythonRequest = {
+      files: files.filter(f => f.language === 'python').map(f => ({ filename: f.filename, content: f.content })),
+      entry,
+      stdin
+    }
+    current.postMessage(request)
+  })
+}
@@ -0,0 +1,133 @@
+import type { PyodideAPI } from 'pyodide'
+import type { OutputStream, SourceLocation } from './types'
+
+export interface PythonRequest {
+  files: Array<{ filename: string, content: string }>
+  entry: string
+  stdin?: string
+}
+
+export type PythonMessage =
+  | { type: 'running' }
+  | { type: 'output', stream: OutputStream, text: string, location?: SourceLocation }
+  | { type: 'done', status: 'success' | 'error' }
+
+// Session files are written under this directory, which is also the
+// working directory and first on sys.path while a program runs
+const SESSION_DIR = '/session'
+
+const FRAME_PATTERN = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?$/
+
+const post = (message: PythonMessage) => self.postMessage(message)
+const write = (stream: OutputStream, text: string, location?: SourceLocation) =>
+  post({ type: 'output', stream, text, location })
+
+let runtime: Promise<PyodideAPI> | null = null
+
+// The runtime is loaded from the app's own /pyodide/ assets and kept for later
+// runs; the worker is only replaced when a run has to be stopped
+function loadRuntime() {
+  runtime ??= (async () => {
+    const indexURL = `${import.meta.env.BASE_URL}pyodide/`
+    const { loadPyodide } = await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`)
+    return loadPyodide({ indexURL, packageBaseUrl: indexURL }) as Promise<PyodideAPI>
+  })()
+  return runtime
+}
+
+async function run({ files, entry, stdin }: PythonRequest) {
+  const pyodide = await loadRuntime()
+
+  let input: string | null = stdin ?? ''
+  pyodide.setStdin({
+    stdin: () => {
+      const text = input
+      input = null
+      return text
+    }
+  })
+  pyodide.setStdout({ batched: (text: string) => write('stdout', text) })
+  pyodide.setStderr({ batched: (text: string) => write('stderr', text) })
+
+  // Replace the files from the previous run and forget their imported modules
+  const sessionFiles = pyodide.toPy(files.map(f => [f.filename, f.content]))
+  pyodide.globals.set('session_files', sessionFiles)
+  await pyodide.runPythonAsync(`
+import os, shutil, sys
+shutil.rmtree(${JSON.stringify(SESSION_DIR)}, ignore_errors=True)
+for name, content in session_files:
+    path = os.path.join(${JSON.stringify(SESSION_DIR)}, name)
+    os.makedirs(os.path.dirname(path), exist_ok=True)
+    with open(path, "w") as f:
+        f.write(content)
+for name, module in list(sys.modules.items()):
+    if (getattr(module, "__file__", None) or "").startswith(${JSON.stringify(SESSION_DIR)}):
+        del sys.modules[name]
+del session_files
+`)
+  sessionFiles.destroy()
+
+  post({ type: 'running' })
+
+  try {
+    pyodide.globals.set('entry_path', `${SESSION_DIR}/${entry}`)
+    await pyodide.runPythonAsync(`
+import os, runpy, sys
+os.chdir(${JSON.stringify(SESSION_DIR)})
+sys.path[:0] = [os.path.dirname(entry_path), ${JSON.stringify(SESSION_DIR)}]
+try:
+    runpy.run_path(entry_path, run_name="__main__")
+finally:
+    del sys.path[:2]
+    sys.stdout.flush()
+    sys.stderr.flush()
+`)
+    post({ type: 'done', status: 'success' })
+  } catch (error) {
+    if (isSystemExit(error)) {
+      post({ type: 'done', status: 'success' })
+      return
+    }
+    reportTraceback(error instanceof Error ? error.message : String(error))
+    post({ type: 'done', status: 'error' })
+  }
+}
+
+// `sys.exit()` and `sys.exit(0)` end the program normally
+function isSystemExit(error: unknown) {
+  return error instanceof Error && /SystemExit(: 0)?\s*$/.test(error.message)
+}
+
+// Keeps the frames that belong to session files, with paths relative to the
+// session, so each can be opened in the editor. The final error line points
+// at the innermost session frame.
+function reportTraceback(traceback: string) {
+  const lines = traceback.trimEnd().split('\n')
+  const start = lines.findIndex(line => line.startsWith('Traceback'))
+  let innermost: SourceLocation | undefined
+  let keepSource = false
+
+  write('stderr', 'Traceback (most recent call last):')
+
+  for (const line of lines.slice(start + 1, -1)) {
+    const frame = FRAME_PATTERN.exec(line)
+    if (frame) {
+      keepSource = frame[1].startsWith(`${SESSION_DIR}/`)
+      if (keepSource) {
+        innermost = { filename: frame[1].slice(SESSION_DIR.length + 1), line: Number(frame[2]) }
+        write('stderr', `  File "${innermost.filename}", line ${innermost.line}${frame[3] ? `, in ${frame[3]}` : ''}`, innermost)
+      }
+    } else if (keepSource) {
+      write('stderr', line)
+    }
+  }
+
+  write('stderr', lines[lines.length - 1], innermost)
+}
+
+self.addEventListener('message', (event: MessageEvent<PythonRequest>) => {
+  run(event.data).catch((error) => {
+    write('stderr', error instanceof Error ? error.message : String(error))
+    post({ type: 'done', status: 'error' })
+  })
+})
@@ -0,0 +1,150 @@
+import { formatArgs, formatValue } from './format'
+import type { ModuleSource } from './moduleGraph'
+import type { OutputStream } from './types'
+
+export interface SandboxRequest {
+  modules: ModuleSource[]
+  entry: string
+}
+
+export type SandboxMessage =
+  | { type: 'output', stream: OutputStream, text: string }
+  | { type: 'done', status: 'success' | 'error' }
+
+// Globals that would let session code reach the network or storage. They are
+// removed from the worker scope and from every prototype it inherits from,
+// so Object.getPrototypeOf(self).fetch is gone too. This keeps honest code
+// from making requests by accident; it is not a security boundary: module
+// imports are resolved to blob URLs before anything runs, but an import()
+// with a computed URL still loads from elsewhere.
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'Worker', 'SharedWorker', 'importScripts', 'indexedDB', 'caches']
+
+// How often to check whether timers are still pending after the entry module
+// has finished evaluating
+const IDLE_POLL_MS = 10
+
+const scope = self as unknown as Record<string, unknown>
+const post = (message: SandboxMessage) => self.postMessage(message)
+const write = (stream: OutputStream, text: string) => post({ type: 'output', stream, text })
+
+let failed = false
+const timers = new Set<number>()
+const nativeSetTimeout = self.setTimeout.bind(self)
+const nativeClearTimeout = self.clearTimeout.bind(self)
+const nativeSetInterval = self.setInterval.bind(self)
+const nativeClearInterval = self.clearInterval.bind(self)
+
+function reportError(error: unknown) {
+  failed = true
+  write('stderr', error instanceof Error ? formatValue(error) : `Uncaught ${formatValue(error, 1)}`)
+}
+
+function installConsole() {
+  const stdout = (...args: unknown[]) => write('stdout', formatArgs(args))
+  const stderr = (...args: unknown[]) => write('stderr', formatArgs(args))
+
+  scope.console = {
+    ...console,
+    log: stdout,
+    info: stdout,
+    debug: stdout,
+    dir: (value: unknown) => write('stdout', formatValue(value, 1)),
+    table: (value: unknown) => write('stdout', formatValue(value, 1)),
+    warn: stderr,
+    error: stderr,
+    trace: stderr,
+    assert: (condition: unknown, ...args: unknown[]) => {
+      if (!condition) write('stderr', `Assertion failed${args.length ? `: ${formatArgs(args)}` : ''}`)
+    },
+  }
+}
+
+// Timers are tracked so the run can finish once the program goes idle
+function installTimers() {
+  scope.setTimeout = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+    const id = nativeSetTimeout(() => {
+      timers.delete(id)
+      if (typeof handler === 'function') handler(...args)
+    }, timeout)
+    timers.add(id)
+    return id
+  }
+  scope.clearTimeout = (id?: number) => {
+    if (id !== undefined) timers.delete(id)
+    nativeClearTimeout(id)
+  }
+  scope.setInterval = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+    const id = nativeSetInterval(() => {
+      if (typeof handler === 'function') handler(...args)
+    }, timeout)
+    timers.add(id)
+    return id
+  }
+  scope.clearInterval = (id?: number) => {
+    if (id !== undefined) timers.delete(id)
+    nativeClearInterval(id)
+  }
+}
+
+function waitForIdle() {
+  return new Promise<void>((resolve) => {
+    const check = () => (timers.size === 0 ? resolve() : nativeSetTimeout(check, IDLE_POLL_MS))
+    nativeSetTimeout(check, 0)
+  })
+}
+
+async function run({ modules, entry }: SandboxRequest) {
+  // Each module is loaded from a blob URL, with its imports rewritten to the
+  // blob URLs of its dependencies (which come earlier in the list)
+  const urls = new Map<string, string>()
+  for (const module of modules) {
+    let code = ''
+    let offset = 0
+    for (const site of module.imports) {
+      code += module.code.slice(offset, site.start) + urls.get(site.resolved)
+      offset = site.end
+    }
+    code += module.code.slice(offset) + `\n//# sourceURL=${module.path}`
+    urls.set(module.path, URL.createObjectURL(new Blob([code], { type: 'text/javascript' })))
+  }
+
+  try {
+    const namespace = await import(/* @vite-ignore */ urls.get(entry)!)
+    const exported = Object.keys(namespace)
+    if (exported.length > 0) {
+      write('result', `Exports: ${formatValue({ ...namespace }, 1)}`)
+    }
+  } catch (error) {
+    reportError(error)
+  }
+
+  await waitForIdle()
+  post({ type: 'done', status: failed ? 'error' : 'success' })
+}
+
+function blockGlobals() {
+  for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (target === self || Object.prototype.hasOwnProperty.call(target, name)) {
+        Object.defineProperty(target, name, { value: undefined, configurable: false, writable: false })
+      }
+    }
+  }
+}
+
+self.addEventListener('error', (event) => {
+  event.preventDefault()
+  reportError(event.error ?? event.message)
+})
+
+self.addEventListener('unhandledrejection', (event) => {
+  event.preventDefault()
+  reportError(event.reason)
+})
+
+self.addEventListener('message', (event: MessageEvent<SandboxRequest>) => {
+  installConsole()
+  installTimers()
+  blockGlobals()
+  run(event.data)
+}, { once: true })
@@ -0,0 +1,36 @@
+export type OutputStream = 'stdout' | 'stderr' | 'result' | 'system'
+
+// A position in a session file, e.g. a frame of a Python traceback
+export interface SourceLocation {
+  filename: string
+  line: number
+}
+
+export interface OutputLine {
+  stream: OutputStream
+  text: string
+  // Milliseconds since the run started
+  time: number
+  location?: SourceLocation
+}
+
+export type RunStatus = 'running' | 'success' | 'error' | 'timeout'
+
+export interface RunResult {
+  status: Exclude<RunStatus, 'running'>
+  output: OutputLine[]
+  durationMs: number
+}
+
+export interface RunnableFile {
+  filename: string
+  content: string
+  language: string
+}
+
+export interface RunOptions {
+  timeoutMs?: number
+  // Text read by the program's standard input; it sees end of file afterwards
+  stdin?: string
+  onOutput?: (line: OutputLine) => void
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { readEventStream } from './eventStream'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://placeholder.supabase.co'
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'placeholder-key'
@@ -11,6 +12,48 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   }
 })
 
+// supabase.functions.invoke buffers the whole response, so edge functions that
+// stream server-sent events are called through fetch directly.
+export async function invokeFunctionStream(name: string, body: unknown, accessToken: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text()
+    throw new Error(`Edge function ${name} failed: ${response.status} - ${errorText}`)
+  }
+
+  return readEventStream(response.body)
+}
+
+export type IssueSeverity = 'error' | 'warning' | 'info'
+
+export type IssueCategory = 'syntax' | 'security' | 'bug' | 'error-handling' | 'maintainability' | 'style'
+
+// One entry of code_files.issues, as written by the analyzer in
+// supabase/functions/_shared/analysis and checked by code_issues_are_valid
+export interface CodeIssue {
+  ruleId: string
+  severity: IssueSeverity
+  message: string
+  // 1-based positions; endColumn is exclusive, as in Monaco
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  category: IssueCategory
+  suggestedFix?: string
+  source: 'analyzer' | 'llm'
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -23,7 +66,7 @@ export type Database = {
           created_at: string
           updated_at: string
           is_public: boolean
-          language: 'python' | 'javascript'
+          language: string
         }
         Insert: {
           id?: string
@@ -33,7 +76,7 @@ export type Database = {
           created_at?: string
           updated_at?: string
           is_public?: boolean
-          language?: 'python' | 'javascript'
+          language?: string
         }
         Update: {
           id?: string
@@ -43,7 +86,7 @@ export type Database = {
           created_at?: string
           updated_at?: string
           is_public?: boolean
-          language?: 'python' | 'javascript'
+          language?: string
         }
       }
       messages: {
@@ -85,7 +128,11 @@ export type Database = {
           created_at: string
           updated_at: string
           health_score: number
-          issues: Record<string, any>[] | null
+          issues: CodeIssue[]
+          updated_by: string | null
+          update_source: 'ai' | 'user'
+          update_prompt: string | null
+          collab_state: string | null
         }
         Insert: {
           id?: string
@@ -96,7 +143,11 @@ export type Database = {
           created_at?: string
           updated_at?: string
           health_score?: number
-          issues?: Record<string, any>[] | null
+          issues?: CodeIssue[]
+          updated_by?: string | null
+          update_source?: 'ai' | 'user'
+          update_prompt?: string | null
+          collab_state?: string | null
         }
         Update: {
           id?: string
@@ -107,9 +158,79 @@ export type Database = {
           created_at?: string
           updated_at?: string
           health_score?: number
-          issues?: Record<string, any>[] | null
+          issues?: CodeIssue[]
+          updated_by?: string | null
+          update_source?: 'ai' | 'user'
+          update_prompt?: string | null
+          collab_state?: string | null
         }
       }
+      code_file_versions: {
+        Row: {
+          id: string
+          code_file_id: string
+          session_id: string
+          version: number
+          filename: string
+          content: string
+          author_id: string | null
+          source: 'ai' | 'user'
+          prompt: string | null
+          created_at: string
+        }
+        // Rows are written by a trigger on code_files
+        Insert: never
+        Update: never
+      }
+      invitations: {
+        Row: {
+          id: string
+          session_id: string
+          email: string
+          role: 'developer' | 'designer' | 'qa' | 'viewer'
+          token: string
+          invited_by: string | null
+          status: 'pending' | 'accepted' | 'revoked' | 'expired'
+          expires_at: string
+          accepted_by: string | null
+          accepted_at: string | null
+          created_at: string
+        }
+        // Issued by the send-invite edge function
+        Insert: never
+        // Managers may only revoke pending invitations
+        Update: {
+          status?: 'revoked'
+        }
+      }
+      session_templates: {
+        Row: {
+          id: string
+          owner_id: string
+          source_session_id: string | null
+          name: string
+          description: string
+          language: string
+          system_message: string
+          files: Array<{ filename: string, content: string }>
+          is_public: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          source_session_id: string
+          name: string
+          description?: string
+          language: string
+          system_message?: string
+          files?: Array<{ filename: string, content: string }>
+          is_public?: boolean
+          created_at?: string
+        }
+        // Templates are not edited once saved
+        Update: never
+      }
       session_participants: {
         Row: {
           id: string
@@ -137,5 +258,11 @@ export type Database = {
         }
       }
     }
+    Functions: {
+      touch_session_participant: {
+        Args: { target_session_id: string }
+        Returns: undefined
+      }
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,464 @@
+// Starting points for new sessions. The built-in catalogue lives here; the
+// ones teams save from their own sessions are rows in session_templates, with
+// the same shape.
+export interface TemplateFile {
+  filename: string
+  content: string
+}
+
+export interface SessionTemplate {
+  id: string
+  name: string
+  description: string
+  // Default language of sessions created from the template
+  language: string
+  // Posted as the first message of the session, so the team and the AI know
+  // what the scaffold is and how it is laid out
+  system_message: string
+  files: TemplateFile[]
+  // Saved templates only
+  owner_id?: string
+  // Members of this session can use the template too
+  source_session_id?: string | null
+  is_public?: boolean
+  created_at?: string
+}
+
+export const BUILT_IN_TEMPLATES: SessionTemplate[] = [
+  {
+    id: 'rest-api',
+    name: 'REST API',
+    description: 'An Express server with a CRUD resource and JSON error handling',
+    language: 'javascript',
+    system_message: 'This session started from the REST API template: an Express app in src/app.js, started by src/server.js, with the /items resource in src/routes/items.js backed by the in-memory store in src/store.js. New resources go in src/routes/ and are mounted in src/app.js.',
+    files: [
+      {
+        filename: 'src/store.js',
+        content: `// In-memory storage; swap for a database when the API needs to persist
+const items = new Map()
+let nextId = 1
+
+export function listItems() {
+  return [...items.values()]
+}
+
+export function getItem(id) {
+  return items.get(id) ?? null
+}
+
+export function createItem(fields) {
+  const item = { id: nextId++, ...fields, createdAt: new Date().toISOString() }
+  items.set(item.id, item)
+  return item
+}
+
+export function updateItem(id, fields) {
+  const item = items.get(id)
+  if (!item) return null
+  const updated = { ...item, ...fields, id }
+  items.set(id, updated)
+  return updated
+}
+
+export function deleteItem(id) {
+  return items.delete(id)
+}
+`,
+      },
+      {
+        filename: 'src/routes/items.js',
+        content: `import { Router } from 'express'
+import { createItem, deleteItem, getItem, listItems, updateItem } from '../store.js'
+
+export const itemsRouter = Router()
+
+function parseId(req, res) {
+  const id = Number(req.params.id)
+  if (!Number.isInteger(id)) {
+    res.status(400).json({ error: 'Invalid id' })
+    return null
+  }
+  return id
+}
+
+itemsRouter.get('/', (req, res) => {
+  res.json(listItems())
+})
+
+itemsRouter.get('/:id', (req, res) => {
+  const id = parseId(req, res)
+  if (id === null) return
+  const item = getItem(id)
+  if (!item) return res.status(404).json({ error: 'Item not found' })
+  res.json(item)
+})
+
+itemsRouter.post('/', (req, res) => {
+  const { name } = req.body ?? {}
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'name is required' })
+  }
+  res.status(201).json(createItem({ name: name.trim() }))
+})
+
+itemsRouter.patch('/:id', (req, res) => {
+  const id = parseId(req, res)
+  if (id === null) return
+  const item = updateItem(id, req.body ?? {})
+  if (!item) return res.status(404).json({ error: 'Item not found' })
+  res.json(item)
+})
+
+itemsRouter.delete('/:id', (req, res) => {
+  const id = parseId(req, res)
+  if (id === null) return
+  if (!deleteItem(id)) return res.status(404).json({ error: 'Item not found' })
+  res.status(204).end()
+})
+`,
+      },
+      {
+        filename: 'src/app.js',
+        content: `import express from 'express'
+import { itemsRouter } from './routes/items.js'
+
+export const app = express()
+
+app.use(express.json())
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok' })
+})
+
+app.use('/items', itemsRouter)
+
+app.use((req, res) => {
+  res.status(404).json({ error: 'Not found' })
+})
+
+app.use((err, req, res, next) => {
+  console.error(err)
+  res.status(500).json({ error: 'Internal server error' })
+})
+`,
+      },
+      {
+        filename: 'src/server.js',
+        content: `import { app } from './app.js'
+
+const port = Number(process.env.PORT) || 3000
+
+app.listen(port, () => {
+  console.log(\`API listening on http://localhost:\${port}\`)
+})
+`,
+      },
+    ],
+  },
+  {
+    id: 'cli-tool',
+    name: 'CLI tool',
+    description: 'A Python command-line tool with subcommands and argument parsing',
+    language: 'python',
+    system_message: 'This session started from the CLI tool template: the argparse entry point is in cli/main.py and each subcommand lives in cli/commands.py as a function taking the parsed arguments and returning an exit code. New subcommands are registered in build_parser().',
+    files: [
+      {
+        filename: 'cli/__init__.py',
+        content: `"""A command-line tool."""
+
+__version__ = "0.1.0"
+`,
+      },
+      {
+        filename: 'cli/commands.py',
+        content: `"""Subcommands: each takes the parsed arguments and returns an exit code."""
+
+import argparse
+import sys
+
+
+def greet(args: argparse.Namespace) -> int:
+    greeting = f"Hello, {args.name}!"
+    print(greeting.upper() if args.shout else greeting)
+    return 0
+
+
+def count(args: argparse.Namespace) -> int:
+    try:
+        with open(args.path, encoding="utf-8") as handle:
+            lines = handle.readlines()
+    except OSError as error:
+        print(f"error: {error}", file=sys.stderr)
+        return 1
+
+    words = sum(len(line.split()) for line in lines)
+    print(f"{len(lines)} lines, {words} words")
+    return 0
+`,
+      },
+      {
+        filename: 'cli/main.py',
+        content: `"""Entry point: python -m cli.main <command> [options]"""
+
+import argparse
+import sys
+
+from cli import __version__
+from cli.commands import count, greet
+
+
+def build_parser() -> argparse.ArgumentParser:
+    parser = argparse.ArgumentParser(prog="cli", description="A command-line tool.")
+    parser.add_argument("--version", action="version", version=f"%(prog)s {__version__}")
+    subcommands = parser.add_subparsers(dest="command", required=True)
+
+    greet_parser = subcommands.add_parser("greet", help="greet someone")
+    greet_parser.add_argument("name")
+    greet_parser.add_argument("--shout", action="store_true", help="greet in capitals")
+    greet_parser.set_defaults(handler=greet)
+
+    count_parser = subcommands.add_parser("count", help="count the lines and words in a file")
+    count_parser.add_argument("path")
+    count_parser.set_defaults(handler=count)
+
+    return parser
+
+
+def main(argv: list[str] | None = None) -> int:
+    args = build_parser().parse_args(argv)
+    return args.handler(args)
+
+
+if __name__ == "__main__":
+    sys.exit(main())
+`,
+      },
+    ],
+  },
+  {
+    id: 'data-script',
+    name: 'Data script',
+    description: 'A Python script that loads a CSV file and summarises its columns',
+    language: 'python',
+    system_message: 'This session started from the data script template: analyze.py reads data/sample.csv with the standard csv module and prints per-column statistics. Keep it dependency-free unless the analysis needs pandas.',
+    files: [
+      {
+        filename: 'data/sample.csv',
+        content: `city,month,temperature,rainfall
+Lisbon,Jan,11.6,99.9
+Lisbon,Jul,23.3,3.5
+Oslo,Jan,-4.3,49.0
+Oslo,Jul,16.4,81.0
+Tokyo,Jan,5.2,52.3
+Tokyo,Jul,25.8,156.2
+`,
+      },
+      {
+        filename: 'analyze.py',
+        content: `"""Summarise the numeric columns of a CSV file."""
+
+import csv
+import statistics
+import sys
+from pathlib import Path
+
+DEFAULT_PATH = Path("data/sample.csv")
+
+
+def load_rows(path: Path) -> list[dict[str, str]]:
+    with path.open(newline="", encoding="utf-8") as handle:
+        return list(csv.DictReader(handle))
+
+
+def numeric_columns(rows: list[dict[str, str]]) -> dict[str, list[float]]:
+    columns: dict[str, list[float]] = {}
+    for name in rows[0].keys() if rows else []:
+        try:
+            columns[name] = [float(row[name]) for row in rows]
+        except ValueError:
+            continue
+    return columns
+
+
+def main() -> int:
+    path = Path(sys.argv[1]) if len(sys.argv) > 1 else DEFAULT_PATH
+    try:
+        rows = load_rows(path)
+    except OSError as error:
+        print(f"error: {error}", file=sys.stderr)
+        return 1
+
+    print(f"{len(rows)} rows in {path}")
+    for name, values in numeric_columns(rows).items():
+        print(
+            f"{name}: min {min(values):.1f}, max {max(values):.1f}, "
+            f"mean {statistics.mean(values):.1f}"
+        )
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
+`,
+      },
+    ],
+  },
+  {
+    id: 'react-component-library',
+    name: 'React component library',
+    description: 'Typed React components with their styles and a single entry point',
+    language: 'typescript',
+    system_message: 'This session started from the React component library template: each component lives in src/components/ as a .tsx file with a matching .css file, takes typed props, and is re-exported from src/index.ts.',
+    files: [
+      {
+        filename: 'src/components/Button.tsx',
+        content: `import type { ButtonHTMLAttributes } from 'react'
+import './Button.css'
+
+export interface ButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {
+  variant?: 'primary' | 'secondary'
+  size?: 'small' | 'medium' | 'large'
+}
+
+export function Button({ variant = 'primary', size = 'medium', className = '', ...props }: ButtonProps) {
+  return (
+    <button
+      className={\`button button--\${variant} button--\${size} \${className}\`.trim()}
+      {...props}
+    />
+  )
+}
+`,
+      },
+      {
+        filename: 'src/components/Button.css',
+        content: `.button {
+  border: none;
+  border-radius: 0.5rem;
+  font-weight: 600;
+  cursor: pointer;
+  transition: background-color 0.15s;
+}
+
+.button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.button--primary {
+  background-color: #6366f1;
+  color: #fff;
+}
+
+.button--primary:hover:not(:disabled) {
+  background-color: #4f46e5;
+}
+
+.button--secondary {
+  background-color: #e5e7eb;
+  color: #111827;
+}
+
+.button--secondary:hover:not(:disabled) {
+  background-color: #d1d5db;
+}
+
+.button--small {
+  padding: 0.25rem 0.75rem;
+  font-size: 0.875rem;
+}
+
+.button--medium {
+  padding: 0.5rem 1rem;
+  font-size: 1rem;
+}
+
+.button--large {
+  padding: 0.75rem 1.5rem;
+  font-size: 1.125rem;
+}
+`,
+      },
+      {
+        filename: 'src/index.ts',
+        content: `export { Button } from './components/Button'
+export type { ButtonProps } from './components/Button'
+`,
+      },
+    ],
+  },
+  {
+    id: 'static-website',
+    name: 'Static website',
+    description: 'An HTML page with its stylesheet and script, no build step',
+    language: 'html',
+    system_message: 'This session started from the static website template: index.html loads styles.css and script.js directly, with no build step. Keep markup semantic and put behaviour in script.js.',
+    files: [
+      {
+        filename: 'index.html',
+        content: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>My Site</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <header>
+    <h1>My Site</h1>
+  </header>
+  <main>
+    <p>Welcome! This page was clicked <span id="count">0</span> times.</p>
+    <button id="counter" type="button">Click me</button>
+  </main>
+  <script src="script.js"></script>
+</body>
+</html>
+`,
+      },
+      {
+        filename: 'styles.css',
+        content: `:root {
+  --color-primary: #6366f1;
+  --spacing: 1rem;
+}
+
+body {
+  margin: 0;
+  font-family: system-ui, sans-serif;
+  line-height: 1.5;
+}
+
+header,
+main {
+  max-width: 40rem;
+  margin: 0 auto;
+  padding: var(--spacing);
+}
+
+button {
+  padding: 0.5rem 1rem;
+  border: none;
+  border-radius: 0.5rem;
+  background-color: var(--color-primary);
+  color: #fff;
+  cursor: pointer;
+}
+`,
+      },
+      {
+        filename: 'script.js',
+        content: `const button = document.getElementById('counter')
+const count = document.getElementById('count')
+let clicks = 0
+
+button.addEventListener('click', () => {
+  clicks += 1
+  count.textContent = String(clicks)
+})
+`,
+      },
+    ],
+  },
+]
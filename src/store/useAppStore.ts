@@ -1,7 +1,15 @@
 import { create } from 'zustand'
-import { supabase } from '../lib/supabase'
-import type { User } from '@supabase/supabase-js'
+import { supabase, invokeFunctionStream, type CodeIssue } from '../lib/supabase'
+import type { RealtimeChannel, User } from '@supabase/supabase-js'
 import toast from 'react-hot-toast'
+import type { Intent } from '../lib/intent'
+import { runFile, type OutputLine, type RunResult, type RunStatus } from '../lib/runtime'
+import type { SessionRole } from '../lib/permissions'
+import type { ImportedFile } from '../lib/import'
+import { copyPath, isInFolder, joinPath, normalizePath } from '../lib/fileTree'
+import { SaveConflictError } from '../lib/conflicts'
+import { DEFAULT_LANGUAGE, detectLanguage, getLanguage } from '../lib/languages'
+import type { SessionTemplate } from '../lib/templates'
 
 interface Message {
   id: string
@@ -13,7 +21,7 @@ interface Message {
   metadata?: Record<string, any>
 }
 
-interface CodeFile {
+export interface CodeFile {
   id: string
   session_id: string
   filename: string
@@ -22,7 +30,25 @@ interface CodeFile {
   created_at: string
   updated_at: string
   health_score: number
-  issues?: Record<string, any>[]
+  issues?: CodeIssue[]
+  updated_by?: string | null
+  update_source?: 'ai' | 'user'
+  update_prompt?: string | null
+  // Yjs document saved by collaborative editors, cleared by other writes
+  collab_state?: string | null
+}
+
+// Snapshot written by the database every time a file's content changes
+export interface CodeFileVersion {
+  id: string
+  code_file_id: string
+  version: number
+  filename: string
+  content: string
+  author_id: string | null
+  source: 'ai' | 'user'
+  prompt: string | null
+  created_at: string
 }
 
 interface Session {
@@ -33,25 +59,169 @@ interface Session {
   created_at: string
   updated_at: string
   is_public: boolean
-  language: 'python' | 'javascript'
+  // An id from the language registry (src/lib/languages.ts)
+  language: string
 }
 
-interface SessionParticipant {
+export interface SessionParticipant {
   id: string
   session_id: string
   user_id: string
-  role: 'owner' | 'developer' | 'designer' | 'qa' | 'viewer'
+  role: SessionRole
   joined_at: string
   last_active: string
 }
 
+export interface Invitation {
+  id: string
+  session_id: string
+  email: string
+  role: Exclude<SessionRole, 'owner'>
+  token: string
+  invited_by: string | null
+  status: 'pending' | 'accepted' | 'revoked' | 'expired'
+  expires_at: string
+  created_at: string
+}
+
+interface PlannedFile {
+  path: string
+  purpose: string
+}
+
+interface StreamingFile {
+  filename: string
+  language: string
+  content: string
+  done: boolean
+}
+
+interface GenerationProgress {
+  stage: 'planning' | 'generating' | 'analyzing' | 'saving'
+  plan: PlannedFile[]
+  files: StreamingFile[]
+}
+
+interface GenerationResult {
+  success: boolean
+  codeFiles: CodeFile[]
+  aiMessage: string
+  message?: Message | null
+}
+
+interface SendMessageOptions {
+  // Pipeline the message was routed to; stored in the message metadata
+  intent?: Intent
+  // Whether to ask chat-response for a reply (defaults to true for user messages)
+  respond?: boolean
+  // File the message is about; its content is passed to chat-response
+  targetFileId?: string
+}
+
+interface GenerateOptions {
+  mode?: 'create' | 'edit'
+  targetFileId?: string
+}
+
+interface ExecutionState {
+  fileId: string
+  filename: string
+  status: RunStatus
+  output: OutputLine[]
+  durationMs?: number
+}
+
+// A fix proposed by fix-issue; nothing is saved until the user accepts it
+export interface FixProposal {
+  fileId: string
+  original: string
+  proposed: string
+  healthScore: number
+  issues: CodeIssue[]
+  mock: boolean
+}
+
+export type WorkspaceTab = 'chat' | 'code' | 'sculpture' | 'dashboard'
+
+// What a participant has open, shared through the session's presence channel
+export interface ParticipantPresence {
+  userId: string
+  name: string
+  tab: WorkspaceTab
+  fileId: string | null
+  onlineAt: string
+}
+
+// 1-based Monaco positions. The start is where the selection was anchored
+// and the end is the cursor, so the end can come before the start.
+export interface CursorSelection {
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+}
+
+export interface RemoteCursor {
+  userId: string
+  name: string
+  fileId: string
+  selection: CursorSelection
+}
+
+// How often last_active is refreshed while a session is open
+const HEARTBEAT_INTERVAL_MS = 60_000
+// Cursor moves are sent at most this often
+const CURSOR_THROTTLE_MS = 80
+// Imported or template files analysed at the same time
+const IMPORT_ANALYSIS_CONCURRENCY = 3
+
+let presenceChannel: RealtimeChannel | null = null
+let localPresence: Pick<ParticipantPresence, 'tab' | 'fileId'> = { tab: 'chat', fileId: null }
+let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+let cursorTimer: ReturnType<typeof setTimeout> | undefined
+let pendingCursor: { fileId: string, selection: CursorSelection } | null = null
+
+function displayName(user: User) {
+  return user.email?.split('@')[0] || 'User'
+}
+
+// Analyses files in the background, a few at a time
+function analyzeInBackground(fileIds: string[], analyze: (fileId: string) => Promise<void>) {
+  const queue = [...fileIds]
+  const analyzeNext = async (): Promise<void> => {
+    const fileId = queue.shift()
+    if (!fileId) return
+    await analyze(fileId).catch(() => {})
+    return analyzeNext()
+  }
+  Promise.all(Array.from({ length: IMPORT_ANALYSIS_CONCURRENCY }, analyzeNext))
+}
+
+// Files generated before languages were detected per file were stored with
+// their session's language. Files with a registered extension are shown with
+// that extension's language instead; nothing is written back.
+function withFileLanguage<T extends { filename: string, language: string }>(file: T): T {
+  const language = detectLanguage(file.filename)
+  return getLanguage(language) && language !== file.language ? { ...file, language } : file
+}
+
 interface AppState {
   user: User | null
   currentSession: Session | null
   sessions: Session[]
+  // Saved templates the user can start sessions from; the built-in ones are
+  // in src/lib/templates.ts
+  templates: SessionTemplate[]
   messages: Message[]
   codeFiles: CodeFile[]
   sessionParticipants: SessionParticipant[]
+  // The user's own role in the current session
+  sessionRole: SessionRole | null
+  generation: GenerationProgress | null
+  execution: ExecutionState | null
+  // Everyone currently online in the session, this user included
+  presence: ParticipantPresence[]
+  remoteCursors: RemoteCursor[]
   isLoading: boolean
   error: string | null
   darkMode: boolean
@@ -73,12 +243,36 @@ interface AppState {
   
   // Async actions
   loadSessions: () => Promise<void>
-  createSession: (name: string, description?: string, language?: 'python' | 'javascript') => Promise<Session | null>
+  createSession: (name: string, description?: string, language?: string, template?: SessionTemplate) => Promise<Session | null>
+  loadTemplates: () => Promise<void>
+  saveSessionAsTemplate: (template: { name: string, description: string, systemMessage: string, isPublic: boolean }) => Promise<SessionTemplate>
+  deleteTemplate: (templateId: string) => Promise<void>
   joinSession: (sessionId: string) => Promise<void>
-  sendMessage: (content: string, type?: 'user' | 'ai' | 'system') => Promise<void>
-  generateCode: (prompt: string) => Promise<void>
-  updateCodeFile: (fileId: string, content: string) => Promise<void>
-  inviteToSession: (sessionId: string, email: string) => Promise<void>
+  sendMessage: (content: string, type?: 'user' | 'ai' | 'system', options?: SendMessageOptions) => Promise<void>
+  generateCode: (prompt: string, options?: GenerateOptions) => Promise<void>
+  updateCodeFile: (fileId: string, content: string, options?: { expectedUpdatedAt?: string }) => Promise<void>
+  analyzeCodeFile: (fileId: string) => Promise<void>
+  importCodeFiles: (files: ImportedFile[]) => Promise<{ created: number, updated: number, unchanged: number }>
+  createCodeFile: (path: string, content?: string) => Promise<CodeFile>
+  duplicateCodeFile: (fileId: string) => Promise<CodeFile>
+  renameCodeFile: (fileId: string, path: string) => Promise<void>
+  renameFolder: (folder: string, path: string) => Promise<void>
+  deleteCodeFiles: (fileIds: string[]) => Promise<void>
+  proposeFix: (fileId: string, issue: CodeIssue) => Promise<FixProposal>
+  loadFileVersions: (fileId: string) => Promise<CodeFileVersion[]>
+  restoreFileVersion: (version: CodeFileVersion) => Promise<void>
+  loadCollabState: (fileId: string) => Promise<{ content: string, collabState: string | null, updatedAt: string }>
+  saveCollabState: (fileId: string, content: string, collabState: string, expectedUpdatedAt: string) => Promise<void>
+  runCodeFile: (fileId: string, options?: { stdin?: string }) => Promise<RunResult | null>
+  clearExecution: () => void
+  inviteToSession: (sessionId: string, email: string, role: Invitation['role']) => Promise<{ invitation: Invitation, acceptUrl: string, delivered: boolean }>
+  loadInvitations: (sessionId: string) => Promise<Invitation[]>
+  revokeInvitation: (invitationId: string) => Promise<void>
+  acceptInvitation: (token: string) => Promise<string>
+  loadParticipants: () => Promise<void>
+  updateParticipantRole: (participantId: string, role: SessionRole) => Promise<void>
+  updatePresence: (patch: Partial<Pick<ParticipantPresence, 'tab' | 'fileId'>>) => void
+  broadcastCursor: (fileId: string, selection: CursorSelection) => void
   setupRealtimeSubscriptions: () => void
   cleanupSubscriptions: () => void
 }
@@ -87,9 +281,15 @@ export const useAppStore = create<AppState>((set, get) => ({
   user: null,
   currentSession: null,
   sessions: [],
+  templates: [],
   messages: [],
   codeFiles: [],
   sessionParticipants: [],
+  sessionRole: null,
+  generation: null,
+  execution: null,
+  presence: [],
+  remoteCursors: [],
   isLoading: false,
   error: null,
   darkMode: true,
@@ -158,7 +358,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  createSession: async (name, description = '', language = 'javascript') => {
+  createSession: async (name, description = '', language = DEFAULT_LANGUAGE, template) => {
     const { user } = get()
     if (!user) {
       toast.error('You must be logged in to create a session')
@@ -175,6 +375,8 @@ export const useAppStore = create<AppState>((set, get) => ({
           description,
           owner_id: user.id,
           language,
+          // Also when started from a template, whose is_public only says who
+          // may use the template
           is_public: false
         }])
         .select()
@@ -196,6 +398,45 @@ export const useAppStore = create<AppState>((set, get) => ({
         // Don't fail the session creation for this
       }
 
+      // Seed the template's files and the note on how they are laid out. The
+      // session exists either way; if one fails it just starts emptier.
+      if (template?.files.length) {
+        try {
+          const { data: files, error: filesError } = await supabase
+            .from('code_files')
+            .insert(template.files.map(file => ({
+              session_id: data.id,
+              filename: file.filename,
+              content: file.content,
+              language: detectLanguage(file.filename, file.content)
+            })))
+            .select('id')
+
+          if (filesError) throw filesError
+          analyzeInBackground(files.map(file => file.id), get().analyzeCodeFile)
+        } catch (error: any) {
+          console.warn('Failed to add template files:', error)
+          toast.error(`Could not add the files from ${template.name}`)
+        }
+      }
+
+      if (template?.system_message) {
+        const { error: messageError } = await supabase
+          .from('messages')
+          .insert({
+            session_id: data.id,
+            user_id: user.id,
+            content: template.system_message,
+            type: 'system',
+            metadata: { template: template.id }
+          })
+
+        if (messageError) {
+          console.warn('Failed to post template message:', messageError)
+          toast.error(`Could not post the starter message from ${template.name}`)
+        }
+      }
+
       set({ isLoading: false })
       toast.success('Session created successfully!')
       
@@ -211,6 +452,68 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  loadTemplates: async () => {
+    // Row level security limits these to the user's own templates, those
+    // saved from their sessions and public ones
+    const { data, error } = await supabase
+      .from('session_templates')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error loading templates:', error)
+      return
+    }
+
+    set({ templates: data })
+  },
+
+  saveSessionAsTemplate: async ({ name, description, systemMessage, isPublic }) => {
+    const { currentSession, user, codeFiles } = get()
+    if (!currentSession || !user) {
+      throw new Error('No active session')
+    }
+
+    const { data, error } = await supabase
+      .from('session_templates')
+      .insert({
+        owner_id: user.id,
+        source_session_id: currentSession.id,
+        name,
+        description,
+        language: currentSession.language,
+        system_message: systemMessage,
+        files: [...codeFiles]
+          .sort((a, b) => a.filename.localeCompare(b.filename))
+          .map(file => ({ filename: file.filename, content: file.content })),
+        is_public: isPublic
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving template:', error)
+      throw error
+    }
+
+    set((state) => ({ templates: [data, ...state.templates] }))
+    return data as SessionTemplate
+  },
+
+  deleteTemplate: async (templateId: string) => {
+    const { error } = await supabase
+      .from('session_templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) {
+      console.error('Error deleting template:', error)
+      throw error
+    }
+
+    set((state) => ({ templates: state.templates.filter(t => t.id !== templateId) }))
+  },
+
   joinSession: async (sessionId) => {
     const { user } = get()
     if (!user) {
@@ -237,33 +540,27 @@ export const useAppStore = create<AppState>((set, get) => ({
         throw new Error('Session not found')
       }
 
-      // Check if user can access this session
-      const canAccess = session.owner_id === user.id || session.is_public
-
-      if (!canAccess) {
-        // Check if user is already a participant
-        const { data: participant } = await supabase
-          .from('session_participants')
-          .select('id')
-          .eq('session_id', sessionId)
-          .eq('user_id', user.id)
-          .single()
+      // The user's own participant record carries their role
+      const { data: participant } = await supabase
+        .from('session_participants')
+        .select('role')
+        .eq('session_id', sessionId)
+        .eq('user_id', user.id)
+        .maybeSingle()
 
-        if (!participant) {
+      if (session.owner_id !== user.id && !participant) {
+        if (!session.is_public) {
           throw new Error('You do not have access to this session')
         }
-      }
 
-      // Add user as participant if not owner and not already participant
-      if (session.owner_id !== user.id) {
+        // Newcomers to a public session can look around; the owner decides
+        // who gets to do more. An existing role is never overwritten.
         const { error: participantError } = await supabase
           .from('session_participants')
-          .upsert({
+          .insert({
             session_id: sessionId,
             user_id: user.id,
-            role: 'developer'
-          }, {
-            onConflict: 'session_id,user_id'
+            role: 'viewer'
           })
 
         if (participantError) {
@@ -272,6 +569,8 @@ export const useAppStore = create<AppState>((set, get) => ({
         }
       }
 
+      const sessionRole: SessionRole = session.owner_id === user.id ? 'owner' : participant?.role ?? 'viewer'
+
       // Load messages for this session
       const { data: messages, error: messagesError } = await supabase
         .from('messages')
@@ -312,8 +611,9 @@ export const useAppStore = create<AppState>((set, get) => ({
       set({
         currentSession: session,
         messages: messages || [],
-        codeFiles: codeFiles || [],
+        codeFiles: (codeFiles || []).map(withFileLanguage),
         sessionParticipants: participants || [],
+        sessionRole,
         isLoading: false,
         error: null
       })
@@ -329,13 +629,15 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  sendMessage: async (content, type = 'user') => {
+  sendMessage: async (content, type = 'user', options = {}) => {
     const { user, currentSession } = get()
     if (!user || !currentSession) {
       toast.error('No active session')
       return
     }
 
+    const { intent, respond = type === 'user', targetFileId } = options
+
     try {
       const { data, error } = await supabase
         .from('messages')
@@ -343,32 +645,40 @@ export const useAppStore = create<AppState>((set, get) => ({
           session_id: currentSession.id,
           user_id: user.id,
           content,
-          type
+          type,
+          metadata: intent ? { intent } : {}
         }])
         .select()
         .single()
 
       if (error) throw error
 
-      // Add message to local state immediately for better UX
-      if (type === 'user') {
-        const { messages } = get()
-        set({ messages: [...messages, data] })
-      }
+      // Add message to local state immediately for better UX; the realtime
+      // subscription skips messages from the current user
+      const { messages } = get()
+      set({ messages: [...messages, data] })
 
-      // If this is a user message, also call chat-response edge function
-      if (type === 'user') {
+      // Ask chat-response for a reply when the message is routed to chat
+      if (respond) {
+        set({ isLoading: true })
         try {
           console.log('Calling chat-response edge function...')
           
           const { data: { session } } = await supabase.auth.getSession()
           if (!session) throw new Error('No auth session')
 
+          const { codeFiles } = get()
+          const targetFile = codeFiles.find(f => f.id === targetFileId)
           const { data: chatData, error: chatError } = await supabase.functions.invoke('chat-response', {
             body: {
               message: content,
               sessionId: currentSession.id,
-              context: `Session: ${currentSession.name}`
+              intent,
+              context: [
+                `Session: ${currentSession.name}`,
+                `Files: ${codeFiles.map(f => f.filename).join(', ') || 'none'}`,
+                ...(targetFile ? [`Content of ${targetFile.filename}:\n${targetFile.content}`] : [])
+              ].join('\n')
             },
             headers: {
               Authorization: `Bearer ${session.access_token}`
@@ -380,10 +690,19 @@ export const useAppStore = create<AppState>((set, get) => ({
           if (chatError) {
             console.error('Chat response error:', chatError)
             // Don't fail the message sending for this
+          } else if (chatData?.message) {
+            // The reply is stored under the current user, so realtime won't deliver it
+            const reply = chatData.message as Message
+            const { messages } = get()
+            if (!messages.some(m => m.id === reply.id)) {
+              set({ messages: [...messages, reply] })
+            }
           }
         } catch (chatError: any) {
           console.error('Error calling chat-response:', chatError)
           // Don't fail the message sending for this
+        } finally {
+          set({ isLoading: false })
         }
       }
     } catch (error: any) {
@@ -393,14 +712,18 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  generateCode: async (prompt) => {
+  generateCode: async (prompt, options = {}) => {
     const { currentSession, user } = get()
     if (!currentSession || !user) {
       toast.error('No active session')
       return
     }
 
-    set({ isLoading: true })
+    set({ isLoading: true, generation: { stage: 'planning', plan: [], files: [] } })
+
+    // Applies a change to the in-flight generation, if there still is one
+    const updateGeneration = (update: (generation: GenerationProgress) => Partial<GenerationProgress>) =>
+      set((state) => state.generation ? { generation: { ...state.generation, ...update(state.generation) } } : {})
 
     try {
       console.log('Calling generate-code edge function...')
@@ -410,64 +733,114 @@ export const useAppStore = create<AppState>((set, get) => ({
       if (!session) throw new Error('No auth session')
 
       // Always call the edge function - let it handle the API key logic
-      const { data, error } = await supabase.functions.invoke('generate-code', {
-        body: {
-          prompt,
-          language: currentSession.language,
-          context: `Session: ${currentSession.name}`,
-          sessionId: currentSession.id,
-          existingFiles: get().codeFiles.map(f => ({ filename: f.filename, content: f.content }))
-        },
-        headers: {
-          Authorization: `Bearer ${session.access_token}`
+      const events = await invokeFunctionStream('generate-code', {
+        prompt,
+        language: currentSession.language,
+        context: `Session: ${currentSession.name}`,
+        sessionId: currentSession.id,
+        mode: options.mode,
+        targetFileId: options.targetFileId,
+        existingFiles: get().codeFiles.map(f => ({ id: f.id, filename: f.filename, content: f.content }))
+      }, session.access_token)
+
+      let result: GenerationResult | null = null
+
+      // Fill the live preview as tokens arrive; the saved files come with "done"
+      for await (const { event, data } of events) {
+        if (event === 'plan') {
+          const { files } = data as { files: PlannedFile[] }
+          updateGeneration(() => ({ plan: files }))
+        } else if (event === 'file_start') {
+          const { filename, language } = data as { filename: string, language: string }
+          updateGeneration(({ files }) => ({
+            stage: 'generating',
+            files: [...files, { filename, language, content: '', done: false }]
+          }))
+        } else if (event === 'token') {
+          const { filename, content } = data as { filename: string, content: string }
+          updateGeneration(({ files }) => ({
+            files: files.map(f => f.filename === filename ? { ...f, content: f.content + content } : f)
+          }))
+        } else if (event === 'file_reset') {
+          // The edit patch did not apply and the file is being rewritten instead
+          const { filename } = data as { filename: string }
+          updateGeneration(({ files }) => ({
+            files: files.map(f => f.filename === filename ? { ...f, content: '' } : f)
+          }))
+        } else if (event === 'file_end') {
+          const { filename } = data as { filename: string }
+          updateGeneration(({ files }) => ({
+            files: files.map(f => f.filename === filename ? { ...f, done: true } : f)
+          }))
+        } else if (event === 'status') {
+          const { stage } = data as { stage: GenerationProgress['stage'] }
+          updateGeneration(() => ({ stage }))
+        } else if (event === 'done') {
+          result = data as GenerationResult
+        } else if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Failed to generate code')
         }
-      })
-
-      console.log('Edge function response:', data)
-
-      if (error) {
-        console.error('Edge function error:', error)
-        throw error
       }
 
-      if (data && data.success) {
-        // Files and messages will be updated via real-time subscriptions
-        toast.success(`Generated ${data.codeFile.filename}`)
+      console.log('Edge function response:', result)
+
+      if (result && result.success) {
+        // Add the results right away; the realtime subscriptions skip duplicates
+        const { codeFiles, messages } = get()
+        const returnedFiles = result.codeFiles
+        const newFiles = returnedFiles.filter(file => !codeFiles.some(f => f.id === file.id))
+        const newMessage = result.message
+        set({
+          codeFiles: [
+            ...newFiles,
+            ...codeFiles.map(file => returnedFiles.find(f => f.id === file.id) ?? file)
+          ],
+          messages: newMessage && !messages.some(m => m.id === newMessage.id) ? [...messages, newMessage] : messages
+        })
+
+        const suffix = newMessage?.metadata?.mock ? ' (mock provider)' : ''
+        if (newFiles.length === 0) {
+          toast.success(`Updated ${returnedFiles.map(f => f.filename).join(', ')}${suffix}`)
+        } else {
+          toast.success(newFiles.length === 1
+            ? `Generated ${newFiles[0].filename}${suffix}`
+            : `Generated ${newFiles.length} files${suffix}`)
+        }
       } else {
-        throw new Error(data?.error || 'Failed to generate code')
+        throw new Error('Generation stream ended before completing')
       }
     } catch (error: any) {
       console.error('Error generating code:', error)
       set({ error: error.message })
-      
-      // Fallback to mock generation if edge function fails
-      console.log('Falling back to mock code generation')
-      await get().generateMockCode(prompt)
+      toast.error(error.message || 'Failed to generate code')
     } finally {
-      set({ isLoading: false })
+      set({ isLoading: false, generation: null })
     }
   },
 
-  updateCodeFile: async (fileId: string, content: string) => {
+  // With `expectedUpdatedAt`, only writes over that version of the file
+  updateCodeFile: async (fileId: string, content: string, { expectedUpdatedAt }: { expectedUpdatedAt?: string } = {}) => {
     const { user } = get()
     if (!user) {
       throw new Error('User not authenticated')
     }
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('code_files')
         .update({ content })
         .eq('id', fileId)
-        .select()
-        .single()
+      if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt)
+
+      const { data, error } = await query.select().maybeSingle()
 
       if (error) throw error
+      if (!data) throw new SaveConflictError()
 
       // Update local state
       const { codeFiles } = get()
       const updatedFiles = codeFiles.map(file => 
-        file.id === fileId ? { ...file, content } : file
+        file.id === fileId ? withFileLanguage({ ...file, ...data }) : file
       )
       set({ codeFiles: updatedFiles })
 
@@ -478,66 +851,448 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  inviteToSession: async (sessionId: string, email: string) => {
-    const { user } = get()
-    if (!user) {
-      throw new Error('User not authenticated')
-    }
-
+  analyzeCodeFile: async (fileId: string) => {
     try {
-      // In a real implementation, this would send an email invitation
-      // For now, we'll just simulate it
-      console.log(`Inviting ${email} to session ${sessionId}`)
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // In a real app, you'd have an invitation system
-      return true
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) throw new Error('No auth session')
+
+      const { data, error } = await supabase.functions.invoke('analyze-code', {
+        body: { fileId },
+        headers: {
+          Authorization: `Bearer ${session.access_token}`
+        }
+      })
+
+      if (error) throw error
+
+      const analyzed = data.codeFile as CodeFile
+      const { codeFiles } = get()
+      set({
+        codeFiles: codeFiles.map(file =>
+          file.id === fileId ? { ...file, health_score: analyzed.health_score, issues: analyzed.issues } : file
+        )
+      })
     } catch (error: any) {
-      console.error('Error inviting user:', error)
+      console.error('Error analyzing code file:', error)
       throw error
     }
   },
 
-  // Mock code generation for when API key is not available
-  generateMockCode: async (prompt: string) => {
-    const { currentSession, user, sendMessage } = get()
-    if (!currentSession || !user) return
+  importCodeFiles: async (files: ImportedFile[]) => {
+    const { currentSession, user, codeFiles } = get()
+    if (!currentSession || !user) {
+      throw new Error('No active session')
+    }
 
-    set({ isLoading: true })
+    // A file that already exists is updated, so its history keeps the old content
+    const existing = new Map(codeFiles.map(file => [file.filename, file]))
+    const added = files.filter(file => !existing.has(file.filename))
+    const changed = files.filter(file => {
+      const current = existing.get(file.filename)
+      return current && current.content !== file.content
+    })
 
-    try {
-      // Generate mock code based on prompt
-      const mockCode = generateMockCode(prompt, currentSession.language)
-      
-      // Create code file
+    const imported: CodeFile[] = []
+
+    if (added.length) {
       const { data, error } = await supabase
         .from('code_files')
-        .insert([{
+        .insert(added.map(file => ({
           session_id: currentSession.id,
-          filename: mockCode.filename,
-          content: mockCode.content,
-          language: currentSession.language,
-          health_score: Math.floor(Math.random() * 40) + 60, // 60-100
-          issues: mockCode.issues
-        }])
+          filename: file.filename,
+          content: file.content,
+          language: file.language
+        })))
+        .select()
+
+      if (error) {
+        console.error('Error importing code files:', error)
+        throw error
+      }
+      imported.push(...data)
+    }
+
+    for (const file of changed) {
+      const { data, error } = await supabase
+        .from('code_files')
+        .update({ content: file.content })
+        .eq('id', existing.get(file.filename)!.id)
         .select()
         .single()
 
-      if (error) throw error
+      if (error) {
+        console.error('Error updating imported code file:', error)
+        throw error
+      }
+      imported.push(data)
+    }
 
-      // Send AI response
-      await sendMessage(`I've generated ${mockCode.filename} for you. The code includes ${mockCode.description}`, 'ai')
-      
-      toast.success(`Generated ${mockCode.filename} (Mock Mode)`)
-    } catch (error: any) {
-      console.error('Error generating mock code:', error)
-      set({ error: error.message })
-      toast.error('Failed to generate code')
-    } finally {
-      set({ isLoading: false })
+    // The realtime subscriptions may have delivered some of these already
+    set((state) => ({
+      codeFiles: [
+        ...imported.filter(file => !state.codeFiles.some(f => f.id === file.id)),
+        ...state.codeFiles.map(file => imported.find(f => f.id === file.id) ?? file)
+      ]
+    }))
+
+    analyzeInBackground(imported.map(file => file.id), get().analyzeCodeFile)
+
+    // Leave a note in the conversation, so the AI knows where the code came from
+    if (imported.length) {
+      const names = imported.map(file => file.filename)
+      const listed = names.length > 20 ? `${names.slice(0, 20).join(', ')} and ${names.length - 20} more` : names.join(', ')
+      await get().sendMessage(`Imported ${names.length} file${names.length === 1 ? '' : 's'}: ${listed}`, 'system')
+    }
+
+    return { created: added.length, updated: changed.length, unchanged: files.length - added.length - changed.length }
+  },
+
+  createCodeFile: async (path: string, content = '') => {
+    const { currentSession } = get()
+    if (!currentSession) {
+      throw new Error('No active session')
+    }
+
+    const filename = normalizePath(path)
+    const { data, error } = await supabase
+      .from('code_files')
+      .insert({
+        session_id: currentSession.id,
+        filename,
+        content,
+        language: detectLanguage(filename, content)
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating code file:', error)
+      throw error
+    }
+
+    set((state) => ({
+      codeFiles: state.codeFiles.some(f => f.id === data.id) ? state.codeFiles : [data, ...state.codeFiles]
+    }))
+    return data as CodeFile
+  },
+
+  duplicateCodeFile: async (fileId: string) => {
+    const { currentSession, codeFiles } = get()
+    const file = codeFiles.find(f => f.id === fileId)
+    if (!currentSession || !file) {
+      throw new Error('File not found')
+    }
+
+    // The copy has the same content, so the analysis carries over
+    const { data, error } = await supabase
+      .from('code_files')
+      .insert({
+        session_id: currentSession.id,
+        filename: copyPath(file.filename, codeFiles.map(f => f.filename)),
+        content: file.content,
+        language: file.language,
+        health_score: file.health_score,
+        issues: file.issues
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error duplicating code file:', error)
+      throw error
+    }
+
+    set((state) => ({
+      codeFiles: state.codeFiles.some(f => f.id === data.id) ? state.codeFiles : [data, ...state.codeFiles]
+    }))
+    return data as CodeFile
+  },
+
+  renameCodeFile: async (fileId: string, path: string) => {
+    const file = get().codeFiles.find(f => f.id === fileId)
+    if (!file) return
+
+    const filename = normalizePath(path)
+    // Keep the language unless the extension says otherwise
+    const extension = (name: string) => name.includes('.') ? name.slice(name.lastIndexOf('.')) : ''
+    const language = extension(filename) === extension(file.filename) ? file.language : detectLanguage(filename, file.content)
+
+    const { data, error } = await supabase
+      .from('code_files')
+      .update({ filename, language })
+      .eq('id', fileId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error renaming code file:', error)
+      throw error
+    }
+
+    set((state) => ({ codeFiles: state.codeFiles.map(f => f.id === fileId ? { ...f, ...data } : f) }))
+  },
+
+  // Moves every file under `folder` to the same place under `path`
+  renameFolder: async (folder: string, path: string) => {
+    const target = normalizePath(path)
+    const files = get().codeFiles.filter(f => isInFolder(f.filename, folder))
+
+    for (const file of files) {
+      const relative = file.filename.slice(folder.length + 1)
+      await get().renameCodeFile(file.id, joinPath(target, relative))
+    }
+  },
+
+  deleteCodeFiles: async (fileIds: string[]) => {
+    const { error } = await supabase
+      .from('code_files')
+      .delete()
+      .in('id', fileIds)
+
+    if (error) {
+      console.error('Error deleting code files:', error)
+      throw error
+    }
+
+    set((state) => ({ codeFiles: state.codeFiles.filter(f => !fileIds.includes(f.id)) }))
+  },
+
+  proposeFix: async (fileId: string, issue: CodeIssue) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('No auth session')
+
+    const { data, error } = await supabase.functions.invoke('fix-issue', {
+      body: { fileId, issue },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
+      }
+    })
+
+    if (error) {
+      // Surface the function's own error message instead of the generic HTTP one
+      const details = await error.context?.json?.().catch(() => null)
+      throw new Error(details?.error || error.message)
     }
+
+    return data as FixProposal
+  },
+
+  loadFileVersions: async (fileId: string) => {
+    const { data, error } = await supabase
+      .from('code_file_versions')
+      .select('*')
+      .eq('code_file_id', fileId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.error('Error loading file versions:', error)
+      throw error
+    }
+
+    return data as CodeFileVersion[]
+  },
+
+  restoreFileVersion: async (version: CodeFileVersion) => {
+    // Restoring is an ordinary edit, so it becomes the newest version
+    await get().updateCodeFile(version.code_file_id, version.content)
+    await get().analyzeCodeFile(version.code_file_id)
+  },
+
+  loadCollabState: async (fileId: string) => {
+    const { data, error } = await supabase
+      .from('code_files')
+      .select('content, collab_state, updated_at')
+      .eq('id', fileId)
+      .single()
+
+    if (error) {
+      console.error('Error loading collaborative state:', error)
+      throw error
+    }
+
+    return { content: data.content, collabState: data.collab_state, updatedAt: data.updated_at }
+  },
+
+  saveCollabState: async (fileId: string, content: string, collabState: string, expectedUpdatedAt: string) => {
+    const { data, error } = await supabase
+      .from('code_files')
+      .update({ content, collab_state: collabState })
+      .eq('id', fileId)
+      .eq('updated_at', expectedUpdatedAt)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error saving collaborative state:', error)
+      throw error
+    }
+    if (!data) throw new SaveConflictError()
+
+    const { codeFiles } = get()
+    set({
+      codeFiles: codeFiles.map(file => file.id === fileId ? withFileLanguage({ ...file, ...data }) : file)
+    })
+  },
+
+  runCodeFile: async (fileId: string, options: { stdin?: string } = {}) => {
+    const { codeFiles, execution } = get()
+    const file = codeFiles.find(f => f.id === fileId)
+    if (!file || execution?.status === 'running') return null
+
+    set({ execution: { fileId, filename: file.filename, status: 'running', output: [] } })
+
+    // Stream output into the panel while the program runs
+    const result = await runFile(codeFiles, file.filename, {
+      stdin: options.stdin,
+      onOutput: (line) => set((state) => ({
+        execution: state.execution && { ...state.execution, output: [...state.execution.output, line] }
+      }))
+    })
+
+    set((state) => ({
+      execution: state.execution && { ...state.execution, status: result.status, durationMs: result.durationMs }
+    }))
+    return result
+  },
+
+  clearExecution: () => set({ execution: null }),
+
+  inviteToSession: async (sessionId: string, email: string, role: Invitation['role']) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('No auth session')
+
+    const { data, error } = await supabase.functions.invoke('send-invite', {
+      body: { sessionId, email, role },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
+      }
+    })
+
+    if (error) {
+      const details = await error.context?.json?.().catch(() => null)
+      console.error('Error inviting user:', details?.error || error)
+      throw new Error(details?.error || error.message)
+    }
+
+    return data as { invitation: Invitation, acceptUrl: string, delivered: boolean }
+  },
+
+  loadInvitations: async (sessionId: string) => {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error loading invitations:', error)
+      throw error
+    }
+
+    return data as Invitation[]
+  },
+
+  revokeInvitation: async (invitationId: string) => {
+    const { error } = await supabase
+      .from('invitations')
+      .update({ status: 'revoked' })
+      .eq('id', invitationId)
+
+    if (error) {
+      console.error('Error revoking invitation:', error)
+      throw error
+    }
+  },
+
+  acceptInvitation: async (token: string) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('No auth session')
+
+    const { data, error } = await supabase.functions.invoke('accept-invite', {
+      body: { token },
+      headers: {
+        Authorization: `Bearer ${session.access_token}`
+      }
+    })
+
+    if (error) {
+      const details = await error.context?.json?.().catch(() => null)
+      throw new Error(details?.error || error.message)
+    }
+
+    return data.sessionId as string
+  },
+
+  loadParticipants: async () => {
+    const { currentSession, user } = get()
+    if (!currentSession || !user) return
+
+    const { data, error } = await supabase
+      .from('session_participants')
+      .select('*')
+      .eq('session_id', currentSession.id)
+
+    if (error) {
+      console.error('Participants fetch error:', error)
+      return
+    }
+
+    const own = data.find(p => p.user_id === user.id)
+    set({
+      sessionParticipants: data,
+      sessionRole: currentSession.owner_id === user.id ? 'owner' : own?.role ?? null
+    })
+  },
+
+  updateParticipantRole: async (participantId: string, role: SessionRole) => {
+    const { data, error } = await supabase
+      .from('session_participants')
+      .update({ role })
+      .eq('id', participantId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating participant role:', error)
+      throw error
+    }
+
+    const { sessionParticipants } = get()
+    set({
+      sessionParticipants: sessionParticipants.map(p => p.id === participantId ? data : p)
+    })
+  },
+
+  updatePresence: (patch) => {
+    localPresence = { ...localPresence, ...patch }
+    const { user } = get()
+    if (!presenceChannel || !user) return
+
+    presenceChannel.track({
+      userId: user.id,
+      name: displayName(user),
+      ...localPresence,
+      onlineAt: new Date().toISOString()
+    })
+  },
+
+  broadcastCursor: (fileId, selection) => {
+    pendingCursor = { fileId, selection }
+    if (cursorTimer) return
+
+    cursorTimer = setTimeout(() => {
+      cursorTimer = undefined
+      const { user } = get()
+      if (!presenceChannel || !user || !pendingCursor) return
+
+      presenceChannel.send({
+        type: 'broadcast',
+        event: 'cursor',
+        payload: { userId: user.id, name: displayName(user), ...pendingCursor }
+      })
+      pendingCursor = null
+    }, CURSOR_THROTTLE_MS)
   },
 
   setupRealtimeSubscriptions: () => {
@@ -582,7 +1337,7 @@ export const useAppStore = create<AppState>((set, get) => ({
             filter: `session_id=eq.${currentSession.id}`
           },
           (payload) => {
-            const newFile = payload.new as CodeFile
+            const newFile = withFileLanguage(payload.new as CodeFile)
             const { codeFiles } = get()
             // Check if file already exists to avoid duplicates
             if (!codeFiles.find(f => f.id === newFile.id)) {
@@ -590,6 +1345,23 @@ export const useAppStore = create<AppState>((set, get) => ({
             }
           }
         )
+        // Deletes carry only the id, so they cannot be filtered by session;
+        // ids of other sessions' files simply match nothing here
+        .on(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'code_files'
+          },
+          (payload) => {
+            const { id } = payload.old as { id: string }
+            const { codeFiles } = get()
+            if (codeFiles.some(f => f.id === id)) {
+              set({ codeFiles: codeFiles.filter(f => f.id !== id) })
+            }
+          }
+        )
         .subscribe()
 
       // Subscribe to code file updates
@@ -604,7 +1376,7 @@ export const useAppStore = create<AppState>((set, get) => ({
             filter: `session_id=eq.${currentSession.id}`
           },
           (payload) => {
-            const updatedFile = payload.new as CodeFile
+            const updatedFile = withFileLanguage(payload.new as CodeFile)
             const { codeFiles } = get()
             const updatedFiles = codeFiles.map(file => 
               file.id === updatedFile.id ? updatedFile : file
@@ -614,14 +1386,73 @@ export const useAppStore = create<AppState>((set, get) => ({
         )
         .subscribe()
 
+      // Role changes apply without rejoining
+      const participantsSubscription = supabase
+        .channel(`session_participants:${currentSession.id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'session_participants',
+            filter: `session_id=eq.${currentSession.id}`
+          },
+          () => {
+            get().loadParticipants()
+          }
+        )
+        .subscribe()
+
+      // Who is online, what they have open and where their cursors are
+      const presenceSubscription = supabase
+        .channel(`presence:${currentSession.id}`, {
+          config: { presence: { key: user.id } }
+        })
+        .on('presence', { event: 'sync' }, () => {
+          // A user with several tabs open shows up once, as their latest tab
+          const presence = Object.values(presenceSubscription.presenceState<ParticipantPresence>())
+            .map(metas => metas[metas.length - 1])
+            .map(({ userId, name, tab, fileId, onlineAt }) => ({ userId, name, tab, fileId, onlineAt }))
+          const { remoteCursors } = get()
+          set({
+            presence,
+            // Drop cursors of people who left or switched to another file
+            remoteCursors: remoteCursors.filter(cursor =>
+              presence.some(p => p.userId === cursor.userId && p.fileId === cursor.fileId)
+            )
+          })
+        })
+        .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+          const cursor = payload as RemoteCursor
+          const { remoteCursors } = get()
+          set({ remoteCursors: [...remoteCursors.filter(c => c.userId !== cursor.userId), cursor] })
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') get().updatePresence({})
+        })
+      presenceChannel = presenceSubscription
+
+      const touchParticipant = () => {
+        supabase.rpc('touch_session_participant', { target_session_id: currentSession.id })
+          .then(({ error }) => {
+            if (error) console.warn('Failed to update last activity:', error)
+          })
+      }
+      touchParticipant()
+      heartbeatTimer = setInterval(touchParticipant, HEARTBEAT_INTERVAL_MS)
+
       // Store subscriptions for cleanup
-      ;(window as any).supabaseSubscriptions = [messagesSubscription, filesSubscription, fileUpdatesSubscription]
+      ;(window as any).supabaseSubscriptions = [messagesSubscription, filesSubscription, fileUpdatesSubscription, participantsSubscription, presenceSubscription]
     } catch (error) {
       console.error('Error setting up subscriptions:', error)
     }
   },
 
   cleanupSubscriptions: () => {
+    clearInterval(heartbeatTimer)
+    presenceChannel = null
+    set({ presence: [], remoteCursors: [] })
+
     const subscriptions = (window as any).supabaseSubscriptions
     if (subscriptions && Array.isArray(subscriptions)) {
       subscriptions.forEach((subscription: any) => {
@@ -635,307 +1466,3 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   }
 }))
-
-// Mock code generation function
-function generateMockCode(prompt: string, language: 'python' | 'javascript') {
-  const isJavaScript = language === 'javascript'
-  const lowerPrompt = prompt.toLowerCase()
-  
-  if (lowerPrompt.includes('todo') || lowerPrompt.includes('task')) {
-    return {
-      filename: isJavaScript ? 'TodoApp.js' : 'todo_app.py',
-      content: isJavaScript ? `// Todo App Implementation
-class TodoApp {
-  constructor() {
-    this.todos = [];
-    this.nextId = 1;
-  }
-
-  addTodo(text) {
-    const todo = {
-      id: this.nextId++,
-      text,
-      completed: false,
-      createdAt: new Date()
-    };
-    this.todos.push(todo);
-    return todo;
-  }
-
-  toggleTodo(id) {
-    const todo = this.todos.find(t => t.id === id);
-    if (todo) {
-      todo.completed = !todo.completed;
-    }
-    return todo;
-  }
-
-  deleteTodo(id) {
-    this.todos = this.todos.filter(t => t.id !== id);
-  }
-
-  getTodos() {
-    return this.todos;
-  }
-
-  getCompletedTodos() {
-    return this.todos.filter(t => t.completed);
-  }
-
-  getPendingTodos() {
-    return this.todos.filter(t => !t.completed);
-  }
-}
-
-export default TodoApp;` : `# Todo App Implementation
-from datetime import datetime
-from typing import List, Dict, Optional
-
-class TodoApp:
-    def __init__(self):
-        self.todos: List[Dict] = []
-        self.next_id = 1
-    
-    def add_todo(self, text: str) -> Dict:
-        todo = {
-            'id': self.next_id,
-            'text': text,
-            'completed': False,
-            'created_at': datetime.now()
-        }
-        self.todos.append(todo)
-        self.next_id += 1
-        return todo
-    
-    def toggle_todo(self, todo_id: int) -> Optional[Dict]:
-        for todo in self.todos:
-            if todo['id'] == todo_id:
-                todo['completed'] = not todo['completed']
-                return todo
-        return None
-    
-    def delete_todo(self, todo_id: int) -> bool:
-        self.todos = [t for t in self.todos if t['id'] != todo_id]
-        return True
-    
-    def get_todos(self) -> List[Dict]:
-        return self.todos
-    
-    def get_completed_todos(self) -> List[Dict]:
-        return [t for t in self.todos if t['completed']]
-    
-    def get_pending_todos(self) -> List[Dict]:
-        return [t for t in self.todos if not t['completed']]
-
-if __name__ == "__main__":
-    app = TodoApp()
-    app.add_todo("Learn Python")
-    app.add_todo("Build a todo app")
-    print(f"Total todos: {len(app.get_todos())}")`,
-      description: 'a complete todo management system with add, toggle, delete, and filter functionality',
-      issues: []
-    }
-  }
-
-  if (lowerPrompt.includes('calculator') || lowerPrompt.includes('math')) {
-    return {
-      filename: isJavaScript ? 'Calculator.js' : 'calculator.py',
-      content: isJavaScript ? `// Advanced Calculator Implementation
-class Calculator {
-  constructor() {
-    this.history = [];
-  }
-
-  add(a, b) {
-    const result = a + b;
-    this.history.push(\`\${a} + \${b} = \${result}\`);
-    return result;
-  }
-
-  subtract(a, b) {
-    const result = a - b;
-    this.history.push(\`\${a} - \${b} = \${result}\`);
-    return result;
-  }
-
-  multiply(a, b) {
-    const result = a * b;
-    this.history.push(\`\${a} × \${b} = \${result}\`);
-    return result;
-  }
-
-  divide(a, b) {
-    if (b === 0) {
-      throw new Error('Division by zero is not allowed');
-    }
-    const result = a / b;
-    this.history.push(\`\${a} ÷ \${b} = \${result}\`);
-    return result;
-  }
-
-  power(base, exponent) {
-    const result = Math.pow(base, exponent);
-    this.history.push(\`\${base}^\${exponent} = \${result}\`);
-    return result;
-  }
-
-  sqrt(number) {
-    if (number < 0) {
-      throw new Error('Cannot calculate square root of negative number');
-    }
-    const result = Math.sqrt(number);
-    this.history.push(\`√\${number} = \${result}\`);
-    return result;
-  }
-
-  getHistory() {
-    return this.history;
-  }
-
-  clearHistory() {
-    this.history = [];
-  }
-}
-
-export default Calculator;` : `# Advanced Calculator Implementation
-import math
-from typing import List
-
-class Calculator:
-    def __init__(self):
-        self.history: List[str] = []
-    
-    def add(self, a: float, b: float) -> float:
-        result = a + b
-        self.history.append(f"{a} + {b} = {result}")
-        return result
-    
-    def subtract(self, a: float, b: float) -> float:
-        result = a - b
-        self.history.append(f"{a} - {b} = {result}")
-        return result
-    
-    def multiply(self, a: float, b: float) -> float:
-        result = a * b
-        self.history.append(f"{a} × {b} = {result}")
-        return result
-    
-    def divide(self, a: float, b: float) -> float:
-        if b == 0:
-            raise ValueError("Division by zero is not allowed")
-        result = a / b
-        self.history.append(f"{a} ÷ {b} = {result}")
-        return result
-    
-    def power(self, base: float, exponent: float) -> float:
-        result = math.pow(base, exponent)
-        self.history.append(f"{base}^{exponent} = {result}")
-        return result
-    
-    def sqrt(self, number: float) -> float:
-        if number < 0:
-            raise ValueError("Cannot calculate square root of negative number")
-        result = math.sqrt(number)
-        self.history.append(f"√{number} = {result}")
-        return result
-    
-    def get_history(self) -> List[str]:
-        return self.history
-    
-    def clear_history(self) -> None:
-        self.history = []
-
-if __name__ == "__main__":
-    calc = Calculator()
-    print(calc.add(10, 5))
-    print(calc.multiply(3, 4))
-    print(calc.get_history())`,
-      description: 'an advanced calculator with basic operations, power, square root, and calculation history',
-      issues: []
-    }
-  }
-
-  // Default generic code
-  return {
-    filename: isJavaScript ? 'app.js' : 'app.py',
-    content: isJavaScript ? `// Generated JavaScript Application
-console.log('Welcome to CodexOrb!');
-
-class Application {
-  constructor(name) {
-    this.name = name;
-    this.version = '1.0.0';
-    this.initialized = false;
-  }
-
-  initialize() {
-    console.log(\`Initializing \${this.name} v\${this.version}\`);
-    this.initialized = true;
-    return this;
-  }
-
-  processInput(input) {
-    if (!this.initialized) {
-      throw new Error('Application not initialized');
-    }
-    
-    return input.toString().toUpperCase();
-  }
-
-  getStatus() {
-    return {
-      name: this.name,
-      version: this.version,
-      initialized: this.initialized,
-      timestamp: new Date().toISOString()
-    };
-  }
-}
-
-// Usage example
-const app = new Application('CodexOrb Demo');
-app.initialize();
-
-console.log('Application Status:', app.getStatus());
-console.log('Processed Input:', app.processInput('hello world'));
-
-export default Application;` : `# Generated Python Application
-print('Welcome to CodexOrb!')
-
-class Application:
-    def __init__(self, name: str):
-        self.name = name
-        self.version = '1.0.0'
-        self.initialized = False
-    
-    def initialize(self):
-        print(f"Initializing {self.name} v{self.version}")
-        self.initialized = True
-        return self
-    
-    def process_input(self, input_data):
-        if not self.initialized:
-            raise RuntimeError('Application not initialized')
-        
-        return str(input_data).upper()
-    
-    def get_status(self):
-        from datetime import datetime
-        return {
-            'name': self.name,
-            'version': self.version,
-            'initialized': self.initialized,
-            'timestamp': datetime.now().isoformat()
-        }
-
-# Usage example
-if __name__ == "__main__":
-    app = Application('CodexOrb Demo')
-    app.initialize()
-    
-    print('Application Status:', app.get_status())
-    print('Processed Input:', app.process_input('hello world'))`,
-    description: 'a basic application structure with initialization and input processing',
-    issues: []
-  }
-}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import type { LLMProvider } from '../llm/index.ts'
+import { getLanguage } from '../languages.ts'
+import { normalizeIssues } from './issues.ts'
+import type { AnalysisResult, CodeIssue, IssueSeverity } from './types.ts'
+
+export { normalizeIssues } from './issues.ts'
+export type { AnalysisResult, CodeIssue, IssueCategory, IssueSeverity } from './types.ts'
+
+const SEVERITY_WEIGHTS: Record<IssueSeverity, number> = { error: 15, warning: 5, info: 1 }
+
+// Repeats of one rule stop costing points after this many, so a single noisy
+// rule cannot sink an otherwise clean file
+const MAX_PENALIZED_PER_RULE = 3
+
+// Code that does not parse cannot score above this
+const SYNTAX_ERROR_CEILING = 40
+
+// Deterministic analysis: the same code always gets the same score and issues.
+// When ANALYSIS_LLM_REVIEW=true and a provider is passed, a model review may
+// add issues on top; those are marked with source "llm".
+export async function analyzeCode(code: string, language: string, provider?: LLMProvider): Promise<AnalysisResult> {
+  const issues = runAnalyzer(code, language)
+
+  if (provider && Deno.env.get('ANALYSIS_LLM_REVIEW') === 'true' && !issues.some(i => i.ruleId === 'syntax-error')) {
+    issues.push(...await reviewCode(provider, code, language, issues))
+  }
+
+  // Everything stored in code_files.issues goes through the same validation
+  const checked = normalizeIssues(issues, code)
+  checked.sort((a, b) => a.line - b.line || a.column - b.column)
+  return { healthScore: scoreIssues(checked), issues: checked }
+}
+
+export function runAnalyzer(code: string, language: string): CodeIssue[] {
+  return getLanguage(language)?.analyze?.(code) ?? []
+}
+
+export function scoreIssues(issues: CodeIssue[]): number {
+  const perRule = new Map<string, number>()
+  let penalty = 0
+
+  for (const issue of issues) {
+    const seen = perRule.get(issue.ruleId) ?? 0
+    perRule.set(issue.ruleId, seen + 1)
+    if (seen < MAX_PENALIZED_PER_RULE) penalty += SEVERITY_WEIGHTS[issue.severity]
+  }
+
+  let score = Math.max(0, Math.min(100, 100 - penalty))
+  if (issues.some(i => i.ruleId === 'syntax-error')) score = Math.min(score, SYNTAX_ERROR_CEILING)
+  return score
+}
+
+async function reviewCode(provider: LLMProvider, code: string, language: string, found: CodeIssue[]): Promise<CodeIssue[]> {
+  try {
+    const raw = await provider.complete({
+      tier: 'fast',
+      task: { kind: 'analysis', prompt: code, language },
+      json: true,
+      messages: [{
+        role: 'user',
+        content: `Review this ${language} code for bugs, security problems and poor practices that a linter would miss.
+These issues were already found, do not repeat them:
+${found.map(i => `- line ${i.line}: ${i.message}`).join('\n') || '- none'}
+
+\`\`\`${language}
+${code}
+\`\`\`
+
+Return JSON only: {"issues": [{"line": number, "severity": "error" | "warning" | "info", "category": "security" | "bug" | "error-handling" | "maintainability" | "style", "message": string, "suggestedFix": string}]}. Return an empty array if there is nothing to add.`
+      }],
+      temperature: 0.1,
+      maxTokens: 1024,
+    })
+
+    const parsed = JSON.parse(raw || '{}')
+    return normalizeIssues(parsed.issues, code, 'llm')
+      .slice(0, 10)
+      .map((issue): CodeIssue => ({ ...issue, ruleId: 'llm-review', source: 'llm' }))
+  } catch {
+    console.log('Model review failed, keeping analyzer results only')
+    return []
+  }
+}
@@ -0,0 +1,100 @@
+import type { CodeIssue, IssueCategory, IssueSeverity } from './types.ts'
+
+interface RuleInfo {
+  category: IssueCategory
+  suggestedFix?: string
+}
+
+export const RULES: Record<string, RuleInfo> = {
+  'syntax-error': { category: 'syntax' },
+  'mixed-indentation': { category: 'style', suggestedFix: 'Indent with spaces only' },
+  'no-eval': { category: 'security', suggestedFix: 'Parse the input explicitly instead of executing it' },
+  'unhandled-promise': { category: 'error-handling', suggestedFix: 'Add a .catch() handler or await it inside try/catch' },
+  'empty-catch': { category: 'error-handling', suggestedFix: 'Handle or log the error' },
+  'swallowed-exception': { category: 'error-handling', suggestedFix: 'Handle or log the exception' },
+  'bare-except': { category: 'error-handling', suggestedFix: 'Catch a specific exception, e.g. except Exception:' },
+  'missing-error-handling': { category: 'error-handling' },
+  'eqeqeq': { category: 'bug' },
+  'mutable-default': { category: 'bug', suggestedFix: 'Default to None and create the value inside the function' },
+  'none-comparison': { category: 'style' },
+  'no-var': { category: 'style', suggestedFix: 'Replace var with let or const' },
+  'unused-import': { category: 'maintainability', suggestedFix: 'Remove the import' },
+  'unused-variable': { category: 'maintainability', suggestedFix: 'Remove the variable or use it' },
+  'complexity': { category: 'maintainability', suggestedFix: 'Split the function into smaller helpers' },
+  'function-length': { category: 'maintainability', suggestedFix: 'Split the function into smaller helpers' },
+  'llm-review': { category: 'maintainability' },
+}
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info']
+const CATEGORIES: IssueCategory[] = ['syntax', 'security', 'bug', 'error-handling', 'maintainability', 'style']
+
+interface Position {
+  line: number
+  column: number
+}
+
+export function createIssue(
+  ruleId: string,
+  severity: IssueSeverity,
+  message: string,
+  start: Position,
+  end: Position = start,
+  suggestedFix?: string
+): CodeIssue {
+  const rule = RULES[ruleId]
+  const fix = suggestedFix ?? rule?.suggestedFix
+
+  return {
+    ruleId,
+    severity,
+    message,
+    line: start.line,
+    column: start.column,
+    endLine: end.line,
+    endColumn: end.line === start.line ? Math.max(end.column, start.column + 1) : end.column,
+    category: rule?.category ?? 'maintainability',
+    ...(fix ? { suggestedFix: fix } : {}),
+    source: 'analyzer',
+  }
+}
+
+// Coerces untrusted issue data (model output, legacy rows) into CodeIssues.
+// Entries without a message are dropped; positions are clamped to the file.
+export function normalizeIssues(value: unknown, code: string, source: CodeIssue['source'] = 'analyzer'): CodeIssue[] {
+  if (!Array.isArray(value)) return []
+
+  const lines = code.split('\n')
+  const lineCount = lines.length
+  const clampLine = (n: unknown, fallback: number) =>
+    typeof n === 'number' && Number.isFinite(n) ? Math.max(1, Math.min(lineCount, Math.round(n))) : fallback
+  const clampColumn = (n: unknown, line: number, fallback: number) =>
+    typeof n === 'number' && Number.isFinite(n) ? Math.max(1, Math.min(lines[line - 1].length + 1, Math.round(n))) : fallback
+
+  return value.flatMap((raw): CodeIssue[] => {
+    if (!raw || typeof raw !== 'object') return []
+    const entry = raw as Record<string, unknown>
+    if (typeof entry.message !== 'string' || !entry.message.trim()) return []
+
+    const line = clampLine(entry.line, 1)
+    const column = clampColumn(entry.column, line, 1)
+    const endLine = Math.max(line, clampLine(entry.endLine, line))
+    const lineEnd = lines[endLine - 1].length + 1
+    const endColumn = clampColumn(entry.endColumn, endLine, endLine === line ? Math.max(column + 1, lineEnd) : lineEnd)
+    const ruleId = typeof entry.ruleId === 'string' && entry.ruleId ? entry.ruleId : 'llm-review'
+
+    return [{
+      ruleId,
+      severity: SEVERITIES.includes(entry.severity as IssueSeverity) ? entry.severity as IssueSeverity : 'info',
+      message: entry.message.trim(),
+      line,
+      column,
+      endLine,
+      endColumn,
+      category: CATEGORIES.includes(entry.category as IssueCategory)
+        ? entry.category as IssueCategory
+        : RULES[ruleId]?.category ?? 'maintainability',
+      ...(typeof entry.suggestedFix === 'string' && entry.suggestedFix.trim() ? { suggestedFix: entry.suggestedFix.trim() } : {}),
+      source: entry.source === 'llm' || entry.source === 'analyzer' ? entry.source : source,
+    }]
+  })
+}
@@ -0,0 +1,305 @@
+import * as acorn from 'https://esm.sh/acorn@8.12.1'
+import { createIssue } from './issues.ts'
+import type { CodeIssue } from './types.ts'
+
+type Node = acorn.AnyNode
+
+type FunctionNode =
+  | acorn.FunctionDeclaration
+  | acorn.AnonymousFunctionDeclaration
+  | acorn.FunctionExpression
+  | acorn.ArrowFunctionExpression
+
+const COMPLEXITY_LIMIT = 10
+const FUNCTION_LENGTH_LIMIT = 60
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'])
+
+export function analyzeJavaScript(code: string): CodeIssue[] {
+  const ast = parse(code)
+  if ('error' in ast) {
+    return [issue('syntax-error', 'error', ast.error.message.replace(/\s*\(\d+:\d+\)$/, ''), { start: ast.error.loc, end: ast.error.loc })]
+  }
+
+  const issues: CodeIssue[] = []
+  const declared = new Map<string, acorn.Identifier>()
+  const exported = new Set<string>()
+  const referenced = new Set<string>()
+
+  walk(ast.program, (node, ancestors) => {
+    const parent = ancestors[ancestors.length - 1]
+
+    switch (node.type) {
+      case 'VariableDeclarator':
+        collectPatternNames(node.id, declared)
+        break
+
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+        if (node.id) declared.set(node.id.name, node.id)
+        break
+
+      case 'ImportSpecifier':
+      case 'ImportDefaultSpecifier':
+      case 'ImportNamespaceSpecifier':
+        declared.set(node.local.name, node.local)
+        break
+
+      case 'ExportNamedDeclaration':
+        if (node.declaration?.type === 'VariableDeclaration') {
+          for (const declarator of node.declaration.declarations) {
+            if (declarator.id.type === 'Identifier') exported.add(declarator.id.name)
+          }
+        } else if (node.declaration?.id) {
+          exported.add(node.declaration.id.name)
+        }
+        for (const specifier of node.specifiers) {
+          if (specifier.local.type === 'Identifier') exported.add(specifier.local.name)
+        }
+        break
+
+      case 'Identifier':
+        if (isReference(node, parent)) referenced.add(node.name)
+        break
+
+      case 'CallExpression':
+        if (node.callee.type === 'Identifier' && node.callee.name === 'eval') {
+          issues.push(issue('no-eval', 'error', 'eval() executes arbitrary strings as code', node.loc))
+        }
+        if (isUnhandledThen(node, parent)) {
+          issues.push(issue('unhandled-promise', 'warning', 'Promise chain has no .catch() handler', node.loc))
+        }
+        break
+
+      case 'NewExpression':
+        if (node.callee.type === 'Identifier' && node.callee.name === 'Function') {
+          issues.push(issue('no-eval', 'error', 'new Function() executes arbitrary strings as code', node.loc))
+        }
+        break
+
+      case 'CatchClause':
+        if (node.body.body.length === 0) {
+          issues.push(issue('empty-catch', 'warning', 'Empty catch block silently swallows errors', node.loc))
+        }
+        break
+
+      case 'BinaryExpression':
+        if ((node.operator === '==' || node.operator === '!=') && !isNullLiteral(node.left) && !isNullLiteral(node.right)) {
+          issues.push(issue('eqeqeq', 'info', `Use ${node.operator}= instead of ${node.operator} to avoid type coercion`, node.loc, `Replace ${node.operator} with ${node.operator}=`))
+        }
+        break
+
+      case 'VariableDeclaration':
+        if (node.kind === 'var') {
+          issues.push(issue('no-var', 'info', 'Use let or const instead of var', node.loc))
+        }
+        break
+    }
+
+    if (isFunction(node)) {
+      issues.push(...checkFunction(node))
+    }
+  })
+
+  for (const [name, node] of declared) {
+    if (!referenced.has(name) && !exported.has(name) && !name.startsWith('_')) {
+      issues.push(issue('unused-variable', 'warning', `'${name}' is declared but never used`, node.loc))
+    }
+  }
+
+  return issues
+}
+
+function parse(code: string): { program: acorn.Program } | { error: { message: string, loc: acorn.Position } } {
+  const options: acorn.Options = {
+    ecmaVersion: 'latest',
+    locations: true,
+    allowHashBang: true,
+    allowAwaitOutsideFunction: true,
+    allowReturnOutsideFunction: true,
+  }
+
+  try {
+    return { program: acorn.parse(code, { ...options, sourceType: 'module' }) }
+  } catch (moduleError) {
+    try {
+      // Scripts may use constructs modules forbid, such as `with` or octal literals
+      return { program: acorn.parse(code, { ...options, sourceType: 'script' }) }
+    } catch {
+      const { message, loc } = moduleError as { message: string, loc?: acorn.Position }
+      return { error: { message, loc: loc ?? { line: 1, column: 0 } as acorn.Position } }
+    }
+  }
+}
+
+function isFunction(node: Node): node is FunctionNode {
+  return FUNCTION_TYPES.has(node.type)
+}
+
+function checkFunction(fn: FunctionNode): CodeIssue[] {
+  const issues: CodeIssue[] = []
+  const name = fn.id?.name ?? 'anonymous function'
+  let complexity = 1
+  let awaits = 0
+  let tries = 0
+
+  // Only look at this function's own body, not nested functions
+  walk(fn.body, (node) => {
+    switch (node.type) {
+      case 'IfStatement':
+      case 'ForStatement':
+      case 'ForInStatement':
+      case 'ForOfStatement':
+      case 'WhileStatement':
+      case 'DoWhileStatement':
+      case 'ConditionalExpression':
+      case 'CatchClause':
+        complexity++
+        break
+      case 'SwitchCase':
+        if (node.test) complexity++
+        break
+      case 'LogicalExpression':
+        complexity++
+        break
+      case 'AwaitExpression':
+        awaits++
+        break
+      case 'TryStatement':
+        tries++
+        break
+    }
+  }, isFunction)
+
+  // Underline the function name rather than the whole body
+  const anchor = fn.id?.loc ?? { start: fn.loc!.start, end: fn.loc!.start }
+
+  if (complexity > COMPLEXITY_LIMIT) {
+    issues.push(issue('complexity', 'warning', `${name} has a cyclomatic complexity of ${complexity} (limit ${COMPLEXITY_LIMIT})`, anchor))
+  }
+
+  if (fn.async && awaits > 0 && tries === 0) {
+    issues.push(issue('missing-error-handling', 'warning', `${name} awaits without a try/catch`, anchor))
+  }
+
+  const length = fn.loc!.end.line - fn.loc!.start.line + 1
+  if (length > FUNCTION_LENGTH_LIMIT) {
+    issues.push(issue('function-length', 'info', `${name} is ${length} lines long (limit ${FUNCTION_LENGTH_LIMIT})`, anchor))
+  }
+
+  return issues
+}
+
+// A `.then()` call whose result is neither continued with .catch()/.then(x, y)
+// nor returned or awaited by the caller
+function isUnhandledThen(node: acorn.CallExpression, parent: Node | undefined) {
+  const { callee } = node
+  if (callee.type !== 'MemberExpression' || callee.property.type !== 'Identifier' || callee.property.name !== 'then') return false
+  if (node.arguments.length >= 2) return false
+  if (parent?.type === 'MemberExpression' && parent.object === node) return false
+  return parent?.type === 'ExpressionStatement'
+}
+
+function isReference(node: acorn.Identifier, parent: Node | undefined) {
+  if (!parent) return true
+  switch (parent.type) {
+    case 'VariableDeclarator':
+      return parent.init === node
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ClassDeclaration':
+    case 'ClassExpression':
+      return parent.id !== node
+    case 'MemberExpression':
+      return parent.object === node || parent.computed
+    case 'Property':
+    case 'PropertyDefinition':
+    case 'MethodDefinition':
+      return parent.computed || parent.value === node
+    case 'ImportSpecifier':
+    case 'ImportDefaultSpecifier':
+    case 'ImportNamespaceSpecifier':
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return false
+    default:
+      return true
+  }
+}
+
+function collectPatternNames(pattern: acorn.Pattern | null, names: Map<string, acorn.Identifier>) {
+  if (!pattern) return
+  switch (pattern.type) {
+    case 'Identifier':
+      names.set(pattern.name, pattern)
+      break
+    case 'ObjectPattern':
+      for (const property of pattern.properties) {
+        collectPatternNames(property.type === 'RestElement' ? property.argument : property.value, names)
+      }
+      break
+    case 'ArrayPattern':
+      for (const element of pattern.elements) collectPatternNames(element, names)
+      break
+    case 'RestElement':
+      collectPatternNames(pattern.argument, names)
+      break
+    case 'AssignmentPattern':
+      collectPatternNames(pattern.left, names)
+      break
+  }
+}
+
+function isNullLiteral(node: Node) {
+  return node.type === 'Literal' && node.value === null
+}
+
+// Generic depth-first walk over every child node. `skip` stops descent into a
+// node's children (the node itself is still visited unless it is the root).
+function walk(
+  root: Node,
+  visit: (node: Node, ancestors: Node[]) => void,
+  skip?: (node: Node) => boolean
+) {
+  const ancestors: Node[] = []
+
+  const step = (node: Node) => {
+    visit(node, ancestors)
+    if (skip && ancestors.length > 0 && skip(node)) return
+
+    ancestors.push(node)
+    for (const value of Object.values(node) as unknown[]) {
+      if (Array.isArray(value)) {
+        for (const child of value) {
+          if (isNode(child)) step(child)
+        }
+      } else if (isNode(value)) {
+        step(value)
+      }
+    }
+    ancestors.pop()
+  }
+
+  step(root)
+}
+
+// ESTree nodes are walked generically, so any field holding an object with a
+// `type` is a child node
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string'
+}
+
+function issue(ruleId: string, severity: CodeIssue['severity'], message: string, loc: acorn.SourceLocation | null | undefined, suggestedFix?: string): CodeIssue {
+  // Every node has a location, as the code is parsed with `locations: true`;
+  // acorn columns are 0-based
+  const { start, end } = loc!
+  return createIssue(
+    ruleId,
+    severity,
+    message,
+    { line: start.line, column: start.column + 1 },
+    { line: end.line, column: end.column + 1 },
+    suggestedFix
+  )
+}
@@ -0,0 +1,434 @@
+import { createIssue } from './issues.ts'
+import type { CodeIssue } from './types.ts'
+
+// There is no Python parser in the edge runtime, so this builds a small syntax
+// tree of its own: a token stream grouped into logical statements, nested into
+// blocks by indentation. That is enough structure for scope-aware rules.
+
+interface Token {
+  type: 'name' | 'number' | 'string' | 'op'
+  value: string
+  line: number
+  column: number
+}
+
+interface Statement {
+  tokens: Token[]
+  indent: number
+  line: number
+  body: Statement[]
+}
+
+interface ParseResult {
+  statements: Statement[]
+  issues: CodeIssue[]
+}
+
+const COMPLEXITY_LIMIT = 10
+const FUNCTION_LENGTH_LIMIT = 60
+
+const BLOCK_KEYWORDS = new Set(['def', 'class', 'if', 'elif', 'else', 'for', 'while', 'try', 'except', 'finally', 'with', 'async', 'match', 'case'])
+const BRANCH_KEYWORDS = new Set(['if', 'elif', 'for', 'while', 'except', 'and', 'or', 'case'])
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+const OPERATORS = ['**=', '//=', '>>=', '<<=', '->', ':=', '==', '!=', '<=', '>=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=', '**', '//', '<<', '>>']
+
+export function analyzePython(code: string): CodeIssue[] {
+  const { statements, issues } = parse(code)
+  if (issues.some(i => i.severity === 'error')) return issues
+
+  const moduleNames = countNames(flatten(statements).filter(s => !isImport(s)))
+
+  visitStatements(statements, (statement) => {
+    const [first] = statement.tokens
+
+    if (isImport(statement)) {
+      for (const binding of importedNames(statement)) {
+        if (!moduleNames.has(binding.value) && binding.value !== '*') {
+          issues.push(issue('unused-import', 'warning', `'${binding.value}' is imported but never used`, binding))
+        }
+      }
+    }
+
+    if (first.value === 'except') {
+      if (statement.tokens[1]?.value === ':') {
+        issues.push(issue('bare-except', 'warning', 'Bare except also catches SystemExit and KeyboardInterrupt', first))
+      }
+      if (statement.body.length === 1 && statement.body[0].tokens.length === 1 && statement.body[0].tokens[0].value === 'pass') {
+        issues.push(issue('swallowed-exception', 'warning', 'Exception is caught and silently ignored', first))
+      }
+    }
+
+    if (first.value === 'def' || (first.value === 'async' && statement.tokens[1]?.value === 'def')) {
+      issues.push(...checkFunction(statement))
+    }
+
+    statement.tokens.forEach((token, index) => {
+      const previous = statement.tokens[index - 1]
+      const next = statement.tokens[index + 1]
+
+      if (token.type === 'name' && (token.value === 'eval' || token.value === 'exec') && next?.value === '(' && previous?.value !== '.' && previous?.value !== 'def') {
+        issues.push(issue('no-eval', 'error', `${token.value}() executes arbitrary strings as code`, token))
+      }
+
+      if ((token.value === '==' || token.value === '!=') && (next?.value === 'None' || previous?.value === 'None')) {
+        issues.push(issue('none-comparison', 'info', `Use 'is${token.value === '!=' ? ' not' : ''} None' to compare with None`, token, `Replace ${token.value} None with is${token.value === '!=' ? ' not' : ''} None`))
+      }
+
+      if (token.value === 'open' && next?.value === '(' && previous?.value !== '.' && first.value !== 'with') {
+        issues.push(issue('missing-error-handling', 'info', 'open() outside a with block may leak the file handle', token, 'Use with open(...) as f:'))
+      }
+    })
+  })
+
+  return issues
+}
+
+function checkFunction(fn: Statement): CodeIssue[] {
+  const issues: CodeIssue[] = []
+  const defIndex = fn.tokens.findIndex(t => t.value === 'def')
+  const nameToken = fn.tokens[defIndex + 1]
+  const name = nameToken?.value ?? 'function'
+
+  // Mutable default arguments are shared between calls
+  fn.tokens.forEach((token, index) => {
+    const next = fn.tokens[index + 1]
+    const afterNext = fn.tokens[index + 2]
+    if (token.value !== '=' || !next) return
+    if (next.value === '[' && afterNext?.value === ']' || next.value === '{' && afterNext?.value === '}' ||
+        (next.value === 'list' || next.value === 'dict' || next.value === 'set') && afterNext?.value === '(') {
+      issues.push(issue('mutable-default', 'warning', `${name} uses a mutable default argument`, next))
+    }
+  })
+
+  // Only this function's own statements; nested defs are checked separately
+  const own = flatten(fn.body, (s) => s.tokens[0].value === 'def' || s.tokens[0].value === 'class')
+
+  let complexity = 1
+  for (const statement of own) {
+    for (const token of statement.tokens) {
+      if (token.type === 'name' && BRANCH_KEYWORDS.has(token.value)) complexity++
+    }
+  }
+  if (complexity > COMPLEXITY_LIMIT) {
+    issues.push(issue('complexity', 'warning', `${name} has a cyclomatic complexity of ${complexity} (limit ${COMPLEXITY_LIMIT})`, nameToken ?? fn.tokens[0]))
+  }
+
+  const lastLine = Math.max(fn.line, ...flatten(fn.body).map(s => s.tokens[s.tokens.length - 1].line))
+  const length = lastLine - fn.line + 1
+  if (length > FUNCTION_LENGTH_LIMIT) {
+    issues.push(issue('function-length', 'info', `${name} is ${length} lines long (limit ${FUNCTION_LENGTH_LIMIT})`, nameToken ?? fn.tokens[0]))
+  }
+
+  // Locals that are assigned but never read
+  const declaredGlobal = new Set(own
+    .filter(s => s.tokens[0].value === 'global' || s.tokens[0].value === 'nonlocal')
+    .flatMap(s => s.tokens.slice(1).map(t => t.value)))
+  const counts = countNames(flatten(fn.body))
+  const targets = new Map<string, { token: Token, count: number }>()
+
+  for (const statement of own) {
+    for (const target of assignmentTargets(statement)) {
+      const entry = targets.get(target.value)
+      targets.set(target.value, { token: entry?.token ?? target, count: (entry?.count ?? 0) + 1 })
+    }
+  }
+
+  for (const [variable, { token, count }] of targets) {
+    if (variable.startsWith('_') || declaredGlobal.has(variable)) continue
+    if ((counts.get(variable) ?? 0) <= count) {
+      issues.push(issue('unused-variable', 'warning', `'${variable}' is assigned but never used`, token))
+    }
+  }
+
+  return issues
+}
+
+// Simple `name = value` and `name: T = value` statements
+function assignmentTargets(statement: Statement): Token[] {
+  const [first, second] = statement.tokens
+  if (first.type !== 'name' || BLOCK_KEYWORDS.has(first.value)) return []
+  if (second?.value === '=') return [first]
+  if (second?.value === ':' && statement.tokens.some((t, i) => i > 1 && t.value === '=')) return [first]
+  return []
+}
+
+function isImport(statement: Statement) {
+  const first = statement.tokens[0].value
+  return first === 'import' || (first === 'from' && statement.tokens.some(t => t.value === 'import'))
+}
+
+// Names an import statement binds: `import a.b as c` binds c, `import a.b` binds a
+function importedNames(statement: Statement): Token[] {
+  const tokens = statement.tokens
+  const start = tokens[0].value === 'from' ? tokens.findIndex(t => t.value === 'import') + 1 : 1
+  const names: Token[] = []
+  let current: Token[] = []
+
+  const flush = () => {
+    const asIndex = current.findIndex(t => t.value === 'as')
+    const bound = asIndex >= 0 ? current[asIndex + 1] : current[0]
+    if (bound) names.push(bound)
+    current = []
+  }
+
+  for (const token of tokens.slice(start)) {
+    if (token.value === ',') flush()
+    else if (token.value !== '(' && token.value !== ')') current.push(token)
+  }
+  flush()
+
+  return names
+}
+
+// Counts name tokens used as identifiers, skipping attribute names after "."
+function countNames(statements: Statement[]) {
+  const counts = new Map<string, number>()
+  for (const statement of statements) {
+    statement.tokens.forEach((token, index) => {
+      if (token.type !== 'name' || statement.tokens[index - 1]?.value === '.') return
+      counts.set(token.value, (counts.get(token.value) ?? 0) + 1)
+    })
+  }
+  return counts
+}
+
+function flatten(statements: Statement[], stopAt?: (statement: Statement) => boolean): Statement[] {
+  return statements.flatMap(s => stopAt?.(s) ? [s] : [s, ...flatten(s.body, stopAt)])
+}
+
+function visitStatements(statements: Statement[], visit: (statement: Statement) => void) {
+  for (const statement of statements) {
+    visit(statement)
+    visitStatements(statement.body, visit)
+  }
+}
+
+function parse(code: string): ParseResult {
+  const issues: CodeIssue[] = []
+  const lines: Array<{ tokens: Token[], indent: number, line: number }> = []
+  const brackets: Token[] = []
+  let tokens: Token[] = []
+  let indent = 0
+  let usesTabs = false
+  let usesSpaces = false
+
+  let line = 1
+  let column = 1
+  let atLineStart = true
+  let i = 0
+
+  const endLogicalLine = () => {
+    if (tokens.length > 0) lines.push({ tokens, indent, line: tokens[0].line })
+    tokens = []
+    atLineStart = true
+  }
+
+  while (i < code.length) {
+    const char = code[i]
+
+    if (atLineStart && brackets.length === 0) {
+      const match = /^[ \t]*/.exec(code.slice(i))![0]
+      const rest = code[i + match.length]
+      if (rest !== '\n' && rest !== '#' && rest !== '\r' && rest !== undefined) {
+        if (match.includes('\t')) usesTabs = true
+        if (match.includes(' ')) usesSpaces = true
+        indent = match.replace(/\t/g, '    ').length
+      }
+      i += match.length
+      column += match.length
+      atLineStart = false
+      continue
+    }
+
+    if (char === '\n') {
+      if (brackets.length === 0) endLogicalLine()
+      i++
+      line++
+      column = 1
+      continue
+    }
+
+    if (char === '\\' && code[i + 1] === '\n') {
+      i += 2
+      line++
+      column = 1
+      continue
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      i++
+      column++
+      continue
+    }
+
+    if (char === '#') {
+      while (i < code.length && code[i] !== '\n') i++
+      continue
+    }
+
+    const stringMatch = /^([rRbBuUfF]{0,2})('''|"""|'|")/.exec(code.slice(i))
+    if (stringMatch) {
+      const quote = stringMatch[2]
+      const start = { line, column }
+      let j = i + stringMatch[0].length
+      let closed = false
+
+      while (j < code.length) {
+        if (code[j] === '\\') {
+          j += 2
+          continue
+        }
+        if (code.startsWith(quote, j)) {
+          j += quote.length
+          closed = true
+          break
+        }
+        if (code[j] === '\n') {
+          if (quote.length === 1) break
+          line++
+        }
+        j++
+      }
+
+      if (!closed) {
+        issues.push(issue('syntax-error', 'error', 'Unterminated string literal', start))
+        return { statements: [], issues }
+      }
+
+      const literal = code.slice(i, j)
+      const lastNewline = literal.lastIndexOf('\n')
+      tokens.push({ type: 'string', value: literal, ...start })
+      column = lastNewline >= 0 ? literal.length - lastNewline : column + literal.length
+      i = j
+      continue
+    }
+
+    const nameMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(code.slice(i))
+    if (nameMatch) {
+      tokens.push({ type: 'name', value: nameMatch[0], line, column })
+      i += nameMatch[0].length
+      column += nameMatch[0].length
+      continue
+    }
+
+    const numberMatch = /^(0[xXoObB])?[0-9][0-9_a-fA-F]*(\.[0-9_]*)?([eE][+-]?[0-9]+)?[jJ]?|^\.[0-9]+/.exec(code.slice(i))
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], line, column })
+      i += numberMatch[0].length
+      column += numberMatch[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(op => code.startsWith(op, i)) ?? char
+    const token: Token = { type: 'op', value: operator, line, column }
+
+    if (OPENERS[operator]) {
+      brackets.push(token)
+    } else if (operator === ')' || operator === ']' || operator === '}') {
+      const open = brackets.pop()
+      if (!open || OPENERS[open.value] !== operator) {
+        issues.push(issue('syntax-error', 'error', `Unmatched '${operator}'`, token))
+        return { statements: [], issues }
+      }
+    }
+
+    tokens.push(token)
+    i += operator.length
+    column += operator.length
+  }
+
+  if (brackets.length > 0) {
+    const open = brackets[brackets.length - 1]
+    issues.push(issue('syntax-error', 'error', `'${open.value}' was never closed`, open))
+    return { statements: [], issues }
+  }
+  endLogicalLine()
+
+  if (usesTabs && usesSpaces) {
+    issues.push(issue('mixed-indentation', 'warning', 'Indentation mixes tabs and spaces', { line: 1, column: 1 }))
+  }
+
+  // Semicolons separate statements on one line
+  const logical = lines.flatMap(({ tokens, indent, line }) => {
+    const parts: Token[][] = [[]]
+    for (const token of tokens) {
+      if (token.value === ';') parts.push([])
+      else parts[parts.length - 1].push(token)
+    }
+    return parts.filter(p => p.length > 0).map(part => ({ tokens: part, indent, line }))
+  })
+
+  const root: Statement = { tokens: [], indent: -1, line: 0, body: [] }
+  const stack: Statement[] = [root]
+  let expectIndent: Statement | null = null
+
+  for (const entry of logical) {
+    const statement: Statement = { ...entry, body: [] }
+    const first = statement.tokens[0]
+    const opensBlock = isBlockOpener(statement)
+
+    if (opensBlock && statement.tokens[statement.tokens.length - 1].value !== ':' && !hasInlineBody(statement)) {
+      issues.push(issue('syntax-error', 'error', `Expected ':' after ${first.value} statement`, statement.tokens[statement.tokens.length - 1]))
+      return { statements: [], issues }
+    }
+
+    if (expectIndent) {
+      if (statement.indent <= expectIndent.indent) {
+        issues.push(issue('syntax-error', 'error', `Expected an indented block after line ${expectIndent.line}`, first))
+        return { statements: [], issues }
+      }
+      stack.push(expectIndent)
+      expectIndent = null
+    }
+
+    while (stack.length > 1 && statement.indent <= stack[stack.length - 1].indent) stack.pop()
+
+    const parent = stack[stack.length - 1]
+    const siblingIndent = parent.body[0]?.indent
+    if (siblingIndent !== undefined && statement.indent !== siblingIndent) {
+      issues.push(issue('syntax-error', 'error', siblingIndent > statement.indent ? 'Unindent does not match any outer indentation level' : 'Unexpected indent', first))
+      return { statements: [], issues }
+    }
+    parent.body.push(statement)
+
+    if (opensBlock && !hasInlineBody(statement)) expectIndent = statement
+  }
+
+  if (expectIndent) {
+    issues.push(issue('syntax-error', 'error', `Expected an indented block after line ${expectIndent.line}`, expectIndent.tokens[expectIndent.tokens.length - 1]))
+    return { statements: [], issues }
+  }
+
+  return { statements: root.body, issues }
+}
+
+function isBlockOpener(statement: Statement) {
+  const first = statement.tokens[0]
+  if (first.type !== 'name' || !BLOCK_KEYWORDS.has(first.value)) return false
+  // "match" and "case" are soft keywords; match(x) is an ordinary call
+  if ((first.value === 'match' || first.value === 'case') && statement.tokens[statement.tokens.length - 1].value !== ':') return false
+  return true
+}
+
+// `if x: return y` keeps its body on the same line
+function hasInlineBody(statement: Statement) {
+  let depth = 0
+  return statement.tokens.some((token, index) => {
+    if (OPENERS[token.value]) depth++
+    else if (token.value === ')' || token.value === ']' || token.value === '}') depth--
+    return depth === 0 && token.value === ':' && index < statement.tokens.length - 1 && !isLambdaColon(statement.tokens, index)
+  })
+}
+
+function isLambdaColon(tokens: Token[], index: number) {
+  for (let i = index - 1; i >= 0; i--) {
+    if (tokens[i].value === 'lambda') return true
+    if (tokens[i].value === ':') return false
+  }
+  return false
+}
+
+function issue(ruleId: string, severity: CodeIssue['severity'], message: string, at: Pick<Token, 'line' | 'column'> & { value?: string }, suggestedFix?: string): CodeIssue {
+  const length = at.value && !at.value.includes('\n') ? at.value.length : 1
+  return createIssue(ruleId, severity, message, at, { line: at.line, column: at.column + length }, suggestedFix)
+}
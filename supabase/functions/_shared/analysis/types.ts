@@ -0,0 +1,26 @@
+export type IssueSeverity = 'error' | 'warning' | 'info'
+
+export type IssueCategory = 'syntax' | 'security' | 'bug' | 'error-handling' | 'maintainability' | 'style'
+
+// Shape of every entry in code_files.issues. The database enforces the same
+// required fields (see code_issue_is_valid), and src/lib/supabase.ts mirrors it.
+export interface CodeIssue {
+  ruleId: string
+  severity: IssueSeverity
+  message: string
+  // 1-based positions; endColumn is exclusive, as in Monaco
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  category: IssueCategory
+  // Human-readable description of the change that resolves the issue
+  suggestedFix?: string
+  // "analyzer" for deterministic rules, "llm" for the optional model review
+  source: 'analyzer' | 'llm'
+}
+
+export interface AnalysisResult {
+  healthScore: number
+  issues: CodeIssue[]
+}
@@ -0,0 +1,89 @@
+// The language registry, shared by the client (src/lib/languages.ts) and the
+// edge functions (languages.ts next to this file), so adding a language is
+// one entry in LANGUAGES. Keep it free of imports and Deno or DOM APIs: both
+// sides load it as is.
+export interface LanguageDefinition {
+  // Stored in sessions.language and code_files.language, and the Monaco id
+  id: string
+  label: string
+  // File extensions, the first one used for new files
+  extensions: string[]
+  comment: (text: string) => string
+  // In-browser runtime for files in this language, if they can be run
+  runner?: 'javascript' | 'python'
+}
+
+const lineComment = (prefix: string) => (text: string) => `${prefix} ${text}`
+
+// Languages generation can write, mixed freely within a session
+export const LANGUAGES: LanguageDefinition[] = [
+  { id: 'javascript', label: 'JavaScript', extensions: ['.js', '.mjs', '.cjs', '.jsx'], comment: lineComment('//'), runner: 'javascript' },
+  { id: 'typescript', label: 'TypeScript', extensions: ['.ts', '.tsx'], comment: lineComment('//') },
+  { id: 'python', label: 'Python', extensions: ['.py'], comment: lineComment('#'), runner: 'python' },
+  { id: 'go', label: 'Go', extensions: ['.go'], comment: lineComment('//') },
+  { id: 'sql', label: 'SQL', extensions: ['.sql'], comment: lineComment('--') },
+  { id: 'html', label: 'HTML', extensions: ['.html', '.htm'], comment: (text) => `<!-- ${text} -->` },
+  { id: 'css', label: 'CSS', extensions: ['.css'], comment: (text) => `/* ${text} */` },
+]
+
+export const DEFAULT_LANGUAGE = 'javascript'
+
+export function getLanguage(id: string) {
+  return LANGUAGES.find(language => language.id === id)
+}
+
+// Monaco language ids for other files a session may hold, e.g. imported
+// ones: highlighted in the editor, but not generated, analyzed or run
+const EDITOR_LANGUAGES: Record<string, string> = {
+  json: 'json',
+  scss: 'scss',
+  md: 'markdown',
+  yml: 'yaml',
+  yaml: 'yaml',
+  xml: 'xml',
+  svg: 'xml',
+  sh: 'shell',
+  bash: 'shell',
+  java: 'java',
+  rs: 'rust',
+  rb: 'ruby',
+  php: 'php',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  kt: 'kotlin',
+  swift: 'swift',
+  toml: 'ini',
+  ini: 'ini',
+}
+
+const FILENAME_LANGUAGES: Record<string, string> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+}
+
+// First lines that give away the language of a file without an extension,
+// such as a script with a shebang
+const CONTENT_LANGUAGES: Array<[RegExp, string]> = [
+  [/^#!.*\bpython[0-9.]*\b/, 'python'],
+  [/^#!.*\b(node|deno|bun)\b/, 'javascript'],
+  [/^#!.*\b(ba|z)?sh\b/, 'shell'],
+  [/^\s*<(!doctype html|html)\b/i, 'html'],
+]
+
+// Language of a file from its name, or from its content when it has no
+// extension: a registered id, another Monaco id, or "plaintext"
+export function detectLanguage(filename: string, content = '') {
+  const name = filename.split('/').pop() ?? filename
+  if (FILENAME_LANGUAGES[name]) return FILENAME_LANGUAGES[name]
+
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+  if (extension) {
+    const registered = LANGUAGES.find(language => language.extensions.includes(`.${extension}`))
+    return registered?.id ?? EDITOR_LANGUAGES[extension] ?? 'plaintext'
+  }
+
+  return CONTENT_LANGUAGES.find(([pattern]) => pattern.test(content))?.[1] ?? 'plaintext'
+}
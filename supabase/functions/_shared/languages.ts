@@ -0,0 +1,252 @@
+// What the edge functions add to the shared language registry
+// (language-registry.ts): an analyzer, the conventions generation asks for,
+// and a starter for the mock provider. A registered language without an
+// entry in SUPPORT still works with the defaults.
+import { analyzeJavaScript } from './analysis/javascript.ts'
+import { analyzePython } from './analysis/python.ts'
+import type { CodeIssue } from './analysis/types.ts'
+import { detectLanguage, LANGUAGES as REGISTERED, type LanguageDefinition as RegisteredLanguage } from './language-registry.ts'
+
+interface Starter {
+  filename: string
+  description: string
+  content: string
+}
+
+interface LanguageSupport {
+  // Deterministic analyzer; without one, files are only reviewed by the model
+  analyze?: (code: string) => CodeIssue[]
+  // Added to generation prompts
+  conventions?: string
+  // Served by the mock provider when no canned project matches the prompt
+  starter?: Starter
+}
+
+export interface LanguageDefinition extends RegisteredLanguage {
+  analyze?: (code: string) => CodeIssue[]
+  conventions: string
+  starter: Starter
+}
+
+const SUPPORT: Record<string, LanguageSupport> = {
+  javascript: {
+    analyze: analyzeJavaScript,
+    conventions: 'ES modules with import/export, const and let, async/await for asynchronous work',
+    starter: {
+      filename: 'app.js',
+      description: 'a basic application structure with initialization and input processing',
+      content: `// Generated JavaScript Application
+console.log('Welcome to CodexOrb!');
+
+class Application {
+  constructor(name) {
+    this.name = name;
+    this.version = '1.0.0';
+    this.initialized = false;
+  }
+
+  initialize() {
+    console.log(\`Initializing \${this.name} v\${this.version}\`);
+    this.initialized = true;
+    return this;
+  }
+
+  processInput(input) {
+    if (!this.initialized) {
+      throw new Error('Application not initialized');
+    }
+    
+    return input.toString().toUpperCase();
+  }
+
+  getStatus() {
+    return {
+      name: this.name,
+      version: this.version,
+      initialized: this.initialized,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+// Usage example
+const app = new Application('CodexOrb Demo');
+app.initialize();
+
+console.log('Application Status:', app.getStatus());
+console.log('Processed Input:', app.processInput('hello world'));
+
+export default Application;`,
+    },
+  },
+  typescript: {
+    conventions: 'strict TypeScript: explicit types on exported functions, interfaces for data shapes, no any; ES modules',
+    starter: {
+      filename: 'app.ts',
+      description: 'a typed greeting module',
+      content: `// Generated TypeScript Application
+export interface Greeting {
+  name: string
+  message: string
+}
+
+export function greet(name: string): Greeting {
+  return { name, message: \`Hello, \${name}!\` }
+}
+
+console.log(greet('CodexOrb').message)
+`,
+    },
+  },
+  python: {
+    analyze: analyzePython,
+    conventions: 'PEP 8 naming, type hints, and an if __name__ == "__main__" guard for scripts',
+    starter: {
+      filename: 'app.py',
+      description: 'a basic application structure with initialization and input processing',
+      content: `# Generated Python Application
+print('Welcome to CodexOrb!')
+
+class Application:
+    def __init__(self, name: str):
+        self.name = name
+        self.version = '1.0.0'
+        self.initialized = False
+    
+    def initialize(self):
+        print(f"Initializing {self.name} v{self.version}")
+        self.initialized = True
+        return self
+    
+    def process_input(self, input_data):
+        if not self.initialized:
+            raise RuntimeError('Application not initialized')
+        
+        return str(input_data).upper()
+    
+    def get_status(self):
+        from datetime import datetime
+        return {
+            'name': self.name,
+            'version': self.version,
+            'initialized': self.initialized,
+            'timestamp': datetime.now().isoformat()
+        }
+
+# Usage example
+if __name__ == "__main__":
+    app = Application('CodexOrb Demo')
+    app.initialize()
+    
+    print('Application Status:', app.get_status())
+    print('Processed Input:', app.process_input('hello world'))`,
+    },
+  },
+  go: {
+    conventions: 'gofmt formatting, package main with func main() for programs, errors returned and checked rather than panics',
+    starter: {
+      filename: 'main.go',
+      description: 'a Go program with a greeting function',
+      content: `// Generated Go Application
+package main
+
+import "fmt"
+
+func greet(name string) string {
+	return fmt.Sprintf("Hello, %s!", name)
+}
+
+func main() {
+	fmt.Println(greet("CodexOrb"))
+}
+`,
+    },
+  },
+  sql: {
+    conventions: 'the PostgreSQL dialect, uppercase keywords, snake_case names, IF NOT EXISTS on created objects',
+    starter: {
+      filename: 'schema.sql',
+      description: 'a table with a first row',
+      content: `-- Generated SQL Schema
+CREATE TABLE IF NOT EXISTS greetings (
+  id serial PRIMARY KEY,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+INSERT INTO greetings (name) VALUES ('CodexOrb');
+`,
+    },
+  },
+  html: {
+    conventions: 'semantic HTML5 elements, a lang attribute and viewport meta tag, accessible labels and alt text',
+    starter: {
+      filename: 'index.html',
+      description: 'a minimal accessible page',
+      content: `<!DOCTYPE html>
+<!-- Generated HTML Page -->
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>CodexOrb</title>
+</head>
+<body>
+  <main>
+    <h1>Hello, CodexOrb!</h1>
+  </main>
+</body>
+</html>
+`,
+    },
+  },
+  css: {
+    conventions: 'class selectors, custom properties for colours and spacing, mobile-first media queries',
+    starter: {
+      filename: 'styles.css',
+      description: 'a stylesheet with theme variables',
+      content: `/* Generated Stylesheet */
+:root {
+  --color-primary: #6366f1;
+  --spacing: 1rem;
+}
+
+body {
+  margin: 0;
+  padding: var(--spacing);
+  font-family: system-ui, sans-serif;
+}
+
+h1 {
+  color: var(--color-primary);
+}
+`,
+    },
+  },
+}
+
+function withSupport(language: RegisteredLanguage): LanguageDefinition {
+  const support = SUPPORT[language.id] ?? {}
+  return {
+    ...language,
+    analyze: support.analyze,
+    conventions: support.conventions ?? `idiomatic ${language.label} with clear names and small functions`,
+    starter: support.starter ?? {
+      filename: `main${language.extensions[0]}`,
+      description: `a starter ${language.label} file`,
+      content: `${language.comment(`Generated ${language.label} file`)}\n`,
+    },
+  }
+}
+
+export const LANGUAGES: LanguageDefinition[] = REGISTERED.map(withSupport)
+
+export function getLanguage(id: string) {
+  return LANGUAGES.find(language => language.id === id)
+}
+
+// The registered language a file is written in, detected the same way the
+// client does; undefined for files in any other language
+export function languageForFile(path: string, content = '') {
+  return getLanguage(detectLanguage(path, content))
+}
@@ -0,0 +1,61 @@
+import { createMockProvider } from './mock.ts'
+import { createOpenAICompatibleProvider } from './openai-compatible.ts'
+import type { LLMProvider } from './types.ts'
+
+export type { ChatMessage, CompletionRequest, CompletionTask, LLMProvider, ModelTier } from './types.ts'
+
+export type ProviderName = 'groq' | 'openai' | 'mock'
+
+// Picks the provider from LLM_PROVIDER (default "groq"). A request may ask for a
+// different one, e.g. from session settings, but only when the deployment opts
+// in with LLM_ALLOW_PROVIDER_OVERRIDE=true.
+//
+//   groq    GROQ_API_KEY, optional GROQ_CODE_MODEL / GROQ_FAST_MODEL
+//   openai  LLM_BASE_URL (e.g. http://localhost:11434/v1 for Ollama),
+//           optional LLM_API_KEY, LLM_CODE_MODEL, LLM_FAST_MODEL
+//   mock    no configuration
+export function getProvider(requested?: string): LLMProvider {
+  const allowOverride = Deno.env.get('LLM_ALLOW_PROVIDER_OVERRIDE') === 'true'
+  const name = (allowOverride && requested) || Deno.env.get('LLM_PROVIDER') || 'groq'
+
+  switch (name) {
+    case 'groq': {
+      const apiKey = Deno.env.get('GROQ_API_KEY')
+      if (!apiKey) {
+        throw new Error('GROQ_API_KEY not configured')
+      }
+      return createOpenAICompatibleProvider({
+        name: 'Groq',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        apiKey,
+        models: {
+          code: Deno.env.get('GROQ_CODE_MODEL') || 'llama-3.1-70b-versatile',
+          fast: Deno.env.get('GROQ_FAST_MODEL') || 'llama-3.1-8b-instant',
+        },
+      })
+    }
+
+    case 'openai': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL')
+      if (!baseUrl) {
+        throw new Error('LLM_BASE_URL not configured')
+      }
+      const codeModel = Deno.env.get('LLM_CODE_MODEL') || 'llama3.1'
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible',
+        baseUrl,
+        apiKey: Deno.env.get('LLM_API_KEY'),
+        models: {
+          code: codeModel,
+          fast: Deno.env.get('LLM_FAST_MODEL') || codeModel,
+        },
+      })
+    }
+
+    case 'mock':
+      return createMockProvider()
+
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
@@ -0,0 +1,231 @@
+// Canned projects served by the mock provider. The same prompt always maps to
+// the same template so demos and tests are reproducible.
+import { getLanguage } from '../languages.ts'
+
+export interface MockTemplate {
+  filename: string
+  content: string
+  description: string
+}
+
+export function mockTemplate(prompt: string, language: string): MockTemplate {
+  const isJavaScript = language === 'javascript'
+  const hasCannedProjects = isJavaScript || language === 'python'
+  const lowerPrompt = prompt.toLowerCase()
+  
+  if (hasCannedProjects && (lowerPrompt.includes('todo') || lowerPrompt.includes('task'))) {
+    return {
+      filename: isJavaScript ? 'TodoApp.js' : 'todo_app.py',
+      content: isJavaScript ? `// Todo App Implementation
+class TodoApp {
+  constructor() {
+    this.todos = [];
+    this.nextId = 1;
+  }
+
+  addTodo(text) {
+    const todo = {
+      id: this.nextId++,
+      text,
+      completed: false,
+      createdAt: new Date()
+    };
+    this.todos.push(todo);
+    return todo;
+  }
+
+  toggleTodo(id) {
+    const todo = this.todos.find(t => t.id === id);
+    if (todo) {
+      todo.completed = !todo.completed;
+    }
+    return todo;
+  }
+
+  deleteTodo(id) {
+    this.todos = this.todos.filter(t => t.id !== id);
+  }
+
+  getTodos() {
+    return this.todos;
+  }
+
+  getCompletedTodos() {
+    return this.todos.filter(t => t.completed);
+  }
+
+  getPendingTodos() {
+    return this.todos.filter(t => !t.completed);
+  }
+}
+
+export default TodoApp;` : `# Todo App Implementation
+from datetime import datetime
+from typing import List, Dict, Optional
+
+class TodoApp:
+    def __init__(self):
+        self.todos: List[Dict] = []
+        self.next_id = 1
+    
+    def add_todo(self, text: str) -> Dict:
+        todo = {
+            'id': self.next_id,
+            'text': text,
+            'completed': False,
+            'created_at': datetime.now()
+        }
+        self.todos.append(todo)
+        self.next_id += 1
+        return todo
+    
+    def toggle_todo(self, todo_id: int) -> Optional[Dict]:
+        for todo in self.todos:
+            if todo['id'] == todo_id:
+                todo['completed'] = not todo['completed']
+                return todo
+        return None
+    
+    def delete_todo(self, todo_id: int) -> bool:
+        self.todos = [t for t in self.todos if t['id'] != todo_id]
+        return True
+    
+    def get_todos(self) -> List[Dict]:
+        return self.todos
+    
+    def get_completed_todos(self) -> List[Dict]:
+        return [t for t in self.todos if t['completed']]
+    
+    def get_pending_todos(self) -> List[Dict]:
+        return [t for t in self.todos if not t['completed']]
+
+if __name__ == "__main__":
+    app = TodoApp()
+    app.add_todo("Learn Python")
+    app.add_todo("Build a todo app")
+    print(f"Total todos: {len(app.get_todos())}")`,
+      description: 'a complete todo management system with add, toggle, delete, and filter functionality'
+    }
+  }
+
+  if (hasCannedProjects && (lowerPrompt.includes('calculator') || lowerPrompt.includes('math'))) {
+    return {
+      filename: isJavaScript ? 'Calculator.js' : 'calculator.py',
+      content: isJavaScript ? `// Advanced Calculator Implementation
+class Calculator {
+  constructor() {
+    this.history = [];
+  }
+
+  add(a, b) {
+    const result = a + b;
+    this.history.push(\`\${a} + \${b} = \${result}\`);
+    return result;
+  }
+
+  subtract(a, b) {
+    const result = a - b;
+    this.history.push(\`\${a} - \${b} = \${result}\`);
+    return result;
+  }
+
+  multiply(a, b) {
+    const result = a * b;
+    this.history.push(\`\${a} × \${b} = \${result}\`);
+    return result;
+  }
+
+  divide(a, b) {
+    if (b === 0) {
+      throw new Error('Division by zero is not allowed');
+    }
+    const result = a / b;
+    this.history.push(\`\${a} ÷ \${b} = \${result}\`);
+    return result;
+  }
+
+  power(base, exponent) {
+    const result = Math.pow(base, exponent);
+    this.history.push(\`\${base}^\${exponent} = \${result}\`);
+    return result;
+  }
+
+  sqrt(number) {
+    if (number < 0) {
+      throw new Error('Cannot calculate square root of negative number');
+    }
+    const result = Math.sqrt(number);
+    this.history.push(\`√\${number} = \${result}\`);
+    return result;
+  }
+
+  getHistory() {
+    return this.history;
+  }
+
+  clearHistory() {
+    this.history = [];
+  }
+}
+
+export default Calculator;` : `# Advanced Calculator Implementation
+import math
+from typing import List
+
+class Calculator:
+    def __init__(self):
+        self.history: List[str] = []
+    
+    def add(self, a: float, b: float) -> float:
+        result = a + b
+        self.history.append(f"{a} + {b} = {result}")
+        return result
+    
+    def subtract(self, a: float, b: float) -> float:
+        result = a - b
+        self.history.append(f"{a} - {b} = {result}")
+        return result
+    
+    def multiply(self, a: float, b: float) -> float:
+        result = a * b
+        self.history.append(f"{a} × {b} = {result}")
+        return result
+    
+    def divide(self, a: float, b: float) -> float:
+        if b == 0:
+            raise ValueError("Division by zero is not allowed")
+        result = a / b
+        self.history.append(f"{a} ÷ {b} = {result}")
+        return result
+    
+    def power(self, base: float, exponent: float) -> float:
+        result = math.pow(base, exponent)
+        self.history.append(f"{base}^{exponent} = {result}")
+        return result
+    
+    def sqrt(self, number: float) -> float:
+        if number < 0:
+            raise ValueError("Cannot calculate square root of negative number")
+        result = math.sqrt(number)
+        self.history.append(f"√{number} = {result}")
+        return result
+    
+    def get_history(self) -> List[str]:
+        return self.history
+    
+    def clear_history(self) -> None:
+        self.history = []
+
+if __name__ == "__main__":
+    calc = Calculator()
+    print(calc.add(10, 5))
+    print(calc.multiply(3, 4))
+    print(calc.get_history())`,
+      description: 'an advanced calculator with basic operations, power, square root, and calculation history'
+    }
+  }
+
+  // Anything else, and languages without canned projects, get the
+  // language's starter
+  return (getLanguage(language) ?? getLanguage('javascript')!).starter
+}
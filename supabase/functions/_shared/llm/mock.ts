@@ -0,0 +1,67 @@
+import { getLanguage } from '../languages.ts'
+import { mockTemplate } from './mock-templates.ts'
+import type { CompletionRequest, LLMProvider } from './types.ts'
+
+// Offline provider for development, demos and tests: answers are derived only
+// from the request, so the same prompt always produces the same output, and
+// nothing leaves the machine.
+export function createMockProvider(): LLMProvider {
+  const respond = ({ task, messages, json }: CompletionRequest): string => {
+    const prompt = task?.prompt ?? [...messages].reverse().find(m => m.role === 'user')?.content ?? ''
+    const language = task?.language ?? 'javascript'
+    const template = mockTemplate(prompt, language)
+    const comment = getLanguage(language)?.comment ?? ((text: string) => `// ${text}`)
+
+    switch (task?.kind) {
+      case 'plan':
+        return JSON.stringify({ files: [{ path: template.filename, purpose: template.description }] })
+
+      case 'file':
+        return template.content
+
+      case 'edit':
+        // Append a marker rather than pretending to understand the change
+        return [
+          '<<<<<<< SEARCH',
+          '=======',
+          comment(`Mock edit requested: ${firstLine(prompt)}`),
+          '>>>>>>> REPLACE',
+        ].join('\n')
+
+      case 'analysis':
+        // Scores come from the local analyzer; the mock review adds nothing
+        return JSON.stringify({ issues: [] })
+
+      case 'summary':
+        // Empty so callers use their own factual summary of what was done
+        return ''
+
+      case 'reply':
+        return `[Mock response] I received: "${firstLine(prompt)}". Configure LLM_PROVIDER to get real answers.`
+
+      default:
+        return json ? '{}' : `${comment(`Mock completion for: ${firstLine(prompt)}`)}\n`
+    }
+  }
+
+  return {
+    name: 'mock',
+    mock: true,
+
+    complete(request) {
+      return Promise.resolve(respond(request))
+    },
+
+    stream(request, onToken) {
+      const completion = respond(request)
+      for (let i = 0; i < completion.length; i += 24) {
+        onToken(completion.slice(i, i + 24))
+      }
+      return Promise.resolve(completion)
+    },
+  }
+}
+
+function firstLine(text: string) {
+  return text.split('\n')[0].slice(0, 120)
+}
@@ -0,0 +1,89 @@
+import type { CompletionRequest, LLMProvider } from './types.ts'
+
+export interface OpenAICompatibleConfig {
+  name: string
+  baseUrl: string
+  apiKey?: string
+  models: Record<CompletionRequest['tier'], string>
+}
+
+// Works with any server exposing the OpenAI chat completions API: Groq,
+// OpenAI itself, or a local Ollama / llama.cpp server.
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  const request = async (body: CompletionRequest, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.models[body.tier],
+        messages: body.messages,
+        temperature: body.temperature ?? 0.7,
+        max_tokens: body.maxTokens ?? 1024,
+        ...(body.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`${config.name} API error:`, response.status, errorText)
+      throw new Error(`${config.name} API error: ${response.status} - ${errorText}`)
+    }
+
+    return response
+  }
+
+  return {
+    name: config.name,
+    mock: false,
+
+    async complete(body) {
+      const response = await request(body, false)
+      const data = await response.json()
+      return data.choices?.[0]?.message?.content || ''
+    },
+
+    async stream(body, onToken) {
+      const response = await request(body, true)
+      if (!response.body) throw new Error(`${config.name} returned an empty stream`)
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+      let buffer = ''
+      let completion = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += value
+        const lines = buffer.split('\n')
+        buffer = lines.pop() ?? ''
+
+        for (const line of lines) {
+          const trimmed = line.trim()
+          if (!trimmed.startsWith('data:')) continue
+
+          const payload = trimmed.slice(5).trim()
+          if (payload === '[DONE]') return completion
+
+          try {
+            const token = JSON.parse(payload).choices?.[0]?.delta?.content
+            if (token) {
+              completion += token
+              onToken(token)
+            }
+          } catch {
+            console.log('Skipping malformed stream chunk')
+          }
+        }
+      }
+
+      return completion
+    },
+  }
+}
@@ -0,0 +1,39 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Handlers ask for a kind of model rather than a model name; each provider
+// maps the tier onto whatever it is configured to serve.
+//   code - the strongest model, used for writing and editing files
+//   fast - a cheap model for classification, analysis and chat replies
+export type ModelTier = 'code' | 'fast'
+
+// What a completion is for. Real models only need the messages; the mock
+// provider uses it to give a plausible answer without a model.
+export interface CompletionTask {
+  kind: 'plan' | 'file' | 'edit' | 'analysis' | 'summary' | 'reply'
+  // The user's request, before it was wrapped into the prompt
+  prompt: string
+  language?: string
+  path?: string
+}
+
+export interface CompletionRequest {
+  tier: ModelTier
+  task?: CompletionTask
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Ask the model for a single JSON object
+  json?: boolean
+}
+
+export interface LLMProvider {
+  name: string
+  // True when completions are canned rather than produced by a model
+  mock: boolean
+  complete(request: CompletionRequest): Promise<string>
+  // Resolves with the full completion once the stream ends
+  stream(request: CompletionRequest, onToken: (token: string) => void): Promise<string>
+}
@@ -0,0 +1,26 @@
+import type { MailMessage, Mailer } from './types.ts'
+
+// Development stand-in: each message is written to the outbox directory as
+// an .eml file (open it with any mail client) and logged, so invitations
+// can be followed without a mail server.
+export function createFileMailer(outboxDir: string, from: string): Mailer {
+  return {
+    name: 'file',
+    delivers: false,
+    async send(message: MailMessage) {
+      await Deno.mkdir(outboxDir, { recursive: true })
+      const path = `${outboxDir}/${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`
+      const eml = [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n')
+
+      await Deno.writeTextFile(path, eml)
+      console.log(`Mail to ${message.to} written to ${path}:\n${message.text}`)
+    },
+  }
+}
@@ -0,0 +1,39 @@
+import { createFileMailer } from './file.ts'
+import { createSmtpMailer } from './smtp.ts'
+import type { Mailer } from './types.ts'
+
+export type { MailMessage, Mailer } from './types.ts'
+
+// Picks the mailer from MAIL_PROVIDER (default "file"), sending as MAIL_FROM.
+//
+//   file  writes .eml files to MAIL_OUTBOX_DIR (default /tmp/codexorb-outbox)
+//   smtp  SMTP_HOST, optional SMTP_PORT (587), SMTP_TLS, SMTP_USER, SMTP_PASSWORD.
+//         A local catcher such as Mailpit or the Supabase CLI's Inbucket
+//         works for development.
+export function getMailer(): Mailer {
+  const name = Deno.env.get('MAIL_PROVIDER') || 'file'
+  const from = Deno.env.get('MAIL_FROM') || 'CodexOrb <no-reply@codexorb.local>'
+
+  switch (name) {
+    case 'file':
+      return createFileMailer(Deno.env.get('MAIL_OUTBOX_DIR') || '/tmp/codexorb-outbox', from)
+
+    case 'smtp': {
+      const hostname = Deno.env.get('SMTP_HOST')
+      if (!hostname) {
+        throw new Error('SMTP_HOST not configured')
+      }
+      return createSmtpMailer({
+        hostname,
+        port: Number(Deno.env.get('SMTP_PORT') || 587),
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+        from,
+      })
+    }
+
+    default:
+      throw new Error(`Unknown mail provider: ${name}`)
+  }
+}
@@ -0,0 +1,43 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import type { MailMessage, Mailer } from './types.ts'
+
+interface SmtpConfig {
+  hostname: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  tls: boolean
+  username?: string
+  password?: string
+  from: string
+}
+
+export function createSmtpMailer(config: SmtpConfig): Mailer {
+  return {
+    name: 'smtp',
+    delivers: true,
+    async send(message: MailMessage) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username
+            ? { username: config.username, password: config.password ?? '' }
+            : undefined,
+        },
+      })
+
+      try {
+        await client.send({
+          from: config.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        })
+      } finally {
+        await client.close()
+      }
+    },
+  }
+}
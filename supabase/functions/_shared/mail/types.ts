@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface Mailer {
+  name: string
+  // False when messages are only written somewhere for a developer to read
+  delivers: boolean
+  send(message: MailMessage): Promise<void>
+}
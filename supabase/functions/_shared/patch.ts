@@ -0,0 +1,84 @@
+// Search/replace patches returned by the model when editing an existing file:
+//
+// <<<<<<< SEARCH
+// lines copied verbatim from the file
+// =======
+// lines to put in their place
+// >>>>>>> REPLACE
+
+export interface SearchReplaceBlock {
+  search: string
+  replace: string
+}
+
+export interface PatchResult {
+  content: string
+  applied: number
+  failed: SearchReplaceBlock[]
+}
+
+const BLOCK_PATTERN = /<{5,}\s*SEARCH\s*\n([\s\S]*?)\n?={5,}\s*\n([\s\S]*?)\n?>{5,}\s*REPLACE/g
+
+export function parseSearchReplaceBlocks(text: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = []
+  for (const match of text.matchAll(BLOCK_PATTERN)) {
+    blocks.push({ search: match[1], replace: match[2] })
+  }
+  return blocks
+}
+
+// Applies blocks in order. A block that cannot be located is reported in
+// `failed` and skipped so the caller can decide whether to fall back.
+export function applySearchReplaceBlocks(content: string, blocks: SearchReplaceBlock[]): PatchResult {
+  let result = content
+  let applied = 0
+  const failed: SearchReplaceBlock[] = []
+
+  for (const block of blocks) {
+    const patched = replaceExact(result, block) ?? replaceIgnoringWhitespace(result, block)
+    if (patched === null) {
+      failed.push(block)
+    } else {
+      result = patched
+      applied++
+    }
+  }
+
+  return { content: result, applied, failed }
+}
+
+function replaceExact(content: string, { search, replace }: SearchReplaceBlock): string | null {
+  // An empty search block appends to the end of the file
+  if (search.trim() === '') {
+    return content.endsWith('\n') || content === '' ? content + replace : `${content}\n${replace}`
+  }
+
+  const index = content.indexOf(search)
+  if (index === -1 || content.indexOf(search, index + 1) !== -1) return null
+  return content.slice(0, index) + replace + content.slice(index + search.length)
+}
+
+// Models often get indentation or trailing whitespace slightly wrong, so retry
+// line by line comparing trimmed text. The match must still be unique.
+function replaceIgnoringWhitespace(content: string, { search, replace }: SearchReplaceBlock): string | null {
+  const lines = content.split('\n')
+  const searchLines = search.split('\n').map(line => line.trim())
+  while (searchLines.length > 0 && searchLines[searchLines.length - 1] === '') searchLines.pop()
+  if (searchLines.length === 0) return null
+
+  let matchAt = -1
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    const matches = searchLines.every((line, offset) => lines[i + offset].trim() === line)
+    if (!matches) continue
+    if (matchAt !== -1) return null
+    matchAt = i
+  }
+
+  if (matchAt === -1) return null
+
+  return [
+    ...lines.slice(0, matchAt),
+    ...replace.split('\n'),
+    ...lines.slice(matchAt + searchLines.length),
+  ].join('\n')
+}
@@ -0,0 +1,78 @@
+// Checks of the caller's role for edge functions, on top of the matrix in
+// session-roles.ts
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, type SessionAction, type SessionRole } from './session-roles.ts'
+
+export { can, PERMISSIONS, SESSION_ROLES, type SessionAction, type SessionRole } from './session-roles.ts'
+
+const ACTION_DESCRIPTIONS: Record<SessionAction, string> = {
+  chat: 'send messages in',
+  generate: 'generate code in',
+  edit: 'edit files in',
+  run: 'run files in',
+  analyze: 'analyze files in',
+  manage: 'manage',
+}
+
+// The user's role in a session: owner for the session's owner, otherwise
+// their participant role, or null when they have none
+export async function getSessionRole(supabase: SupabaseClient, sessionId: string, userId: string): Promise<SessionRole | null> {
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('owner_id')
+    .eq('id', sessionId)
+    .single()
+
+  if (!session) return null
+  if (session.owner_id === userId) return 'owner'
+
+  const { data: participant } = await supabase
+    .from('session_participants')
+    .select('role')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return (participant?.role as SessionRole | undefined) ?? null
+}
+
+// Edge functions use the service role, which bypasses RLS, so each one
+// checks the caller's role itself before touching a session
+export async function requireSessionPermission(
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string,
+  action: SessionAction
+) {
+  const role = await getSessionRole(supabase, sessionId, userId)
+  if (!can(role, action)) {
+    throw new Error(`Your role does not allow you to ${ACTION_DESCRIPTIONS[action]} this session`)
+  }
+  return role
+}
+
+// For requests that name a file rather than a session: checks the caller's
+// role in the file's session before anything else about the file is read.
+// To outsiders an unknown file and a file in someone else's session look the
+// same.
+export async function requireFilePermission(
+  supabase: SupabaseClient,
+  fileId: string,
+  userId: string,
+  action: SessionAction
+) {
+  const { data: file } = await supabase
+    .from('code_files')
+    .select('session_id')
+    .eq('id', fileId)
+    .maybeSingle()
+
+  const role = file ? await getSessionRole(supabase, file.session_id, userId) : null
+  if (!role) {
+    throw new Error('File not found')
+  }
+  if (!can(role, action)) {
+    throw new Error(`Your role does not allow you to ${ACTION_DESCRIPTIONS[action]} this session`)
+  }
+  return file!.session_id as string
+}
@@ -0,0 +1,34 @@
+// What each session role may do, shared by the client (src/lib/permissions.ts)
+// and the edge functions (permissions.ts next to this file). session_can() in
+// the database enforces the same matrix; the UI only hides what would be
+// rejected. Keep it free of imports: both sides load it as is.
+export type SessionRole = 'owner' | 'developer' | 'designer' | 'qa' | 'viewer'
+
+export type SessionAction =
+  // Post messages and get AI replies in the chat
+  | 'chat'
+  // Generate or rewrite files with the AI
+  | 'generate'
+  // Change file content: manual edits, fixes and restores
+  | 'edit'
+  // Run files in the browser sandbox
+  | 'run'
+  // Re-score files with the analyzer
+  | 'analyze'
+  // Invite people and change their roles
+  | 'manage'
+
+export const SESSION_ROLES: SessionRole[] = ['owner', 'developer', 'designer', 'qa', 'viewer']
+
+export const PERMISSIONS: Record<SessionAction, SessionRole[]> = {
+  chat: ['owner', 'developer', 'designer', 'qa'],
+  generate: ['owner', 'developer'],
+  edit: ['owner', 'developer'],
+  run: ['owner', 'developer', 'designer', 'qa'],
+  analyze: ['owner', 'developer', 'qa'],
+  manage: ['owner'],
+}
+
+export function can(role: SessionRole | null | undefined, action: SessionAction) {
+  return !!role && PERMISSIONS[action].includes(role)
+}
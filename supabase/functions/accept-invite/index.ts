@@ -0,0 +1,174 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PERMISSIONS, type SessionRole } from '../_shared/permissions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface AcceptInviteRequest {
+  token: string
+}
+
+interface Invitation {
+  session_id: string
+  role: SessionRole
+  sessions: { owner_id: string } | null
+}
+
+// How many actions a role may take; every role's actions include those of
+// the roles with fewer
+function grants(role: SessionRole) {
+  return Object.values(PERMISSIONS).filter(roles => roles.includes(role)).length
+}
+
+// Adds the signed-in user to the invitation's session with the invited role.
+// The user must be signed in with the address the invitation was sent to.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { token }: AcceptInviteRequest = await req.json()
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication')
+    }
+
+    const { data: invitation, error: inviteError } = await supabase
+      .from('invitations')
+      .select('*, sessions(owner_id)')
+      .eq('token', token)
+      .single()
+
+    if (inviteError || !invitation) {
+      throw new Error('Invitation not found')
+    }
+
+    // Opening the link again after accepting just leads back to the session
+    let role: SessionRole = invitation.role
+    const alreadyAccepted = invitation.status === 'accepted' && invitation.accepted_by === user.id
+
+    if (!alreadyAccepted) {
+      if (invitation.status !== 'pending') {
+        throw new Error(`This invitation has been ${invitation.status}`)
+      }
+
+      if (new Date(invitation.expires_at) < new Date()) {
+        await supabase.from('invitations').update({ status: 'expired' }).eq('id', invitation.id)
+        throw new Error('This invitation has expired')
+      }
+
+      if (user.email?.toLowerCase() !== invitation.email) {
+        throw new Error(`This invitation was sent to ${invitation.email}; sign in with that address to accept it`)
+      }
+
+      // Claim the invitation first, so that of two accepts, or an accept
+      // racing a revoke, only one goes through
+      const { data: claimed, error: claimError } = await supabase
+        .from('invitations')
+        .update({ status: 'accepted', accepted_by: user.id, accepted_at: new Date().toISOString() })
+        .eq('id', invitation.id)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle()
+
+      if (claimError) {
+        console.error('Database error:', claimError)
+        throw new Error(`Database error: ${claimError.message}`)
+      }
+      if (!claimed) {
+        throw new Error('This invitation is no longer pending')
+      }
+
+      try {
+        role = await grantRole(supabase, invitation, user.id)
+      } catch (error) {
+        // Leave the invitation usable when the member could not be added
+        await supabase
+          .from('invitations')
+          .update({ status: 'pending', accepted_by: null, accepted_at: null })
+          .eq('id', invitation.id)
+          .eq('accepted_by', user.id)
+        throw error
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sessionId: invitation.session_id,
+        role
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Accept invite error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
+
+// Adds the user to the session with the invited role and returns the role
+// they end up with. The owner keeps ownership even when invited to their own
+// session, and a member keeps their role when the invitation grants less.
+async function grantRole(supabase: SupabaseClient, invitation: Invitation, userId: string): Promise<SessionRole> {
+  if (invitation.sessions?.owner_id === userId) return 'owner'
+
+  const { data: participant } = await supabase
+    .from('session_participants')
+    .select('role')
+    .eq('session_id', invitation.session_id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (participant && grants(participant.role) >= grants(invitation.role)) {
+    return participant.role
+  }
+
+  const { error: participantError } = await supabase
+    .from('session_participants')
+    .upsert({
+      session_id: invitation.session_id,
+      user_id: userId,
+      role: invitation.role
+    }, {
+      onConflict: 'session_id,user_id'
+    })
+
+  if (participantError) {
+    console.error('Database error:', participantError)
+    throw new Error(`Database error: ${participantError.message}`)
+  }
+  return invitation.role
+}
@@ -0,0 +1,98 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { analyzeCode } from '../_shared/analysis/index.ts'
+import { getProvider } from '../_shared/llm/index.ts'
+import { requireFilePermission } from '../_shared/permissions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface AnalyzeRequest {
+  fileId: string
+  // Provider override, honoured only when LLM_ALLOW_PROVIDER_OVERRIDE is set
+  provider?: string
+}
+
+// Re-scores a saved file and stores the new health score and issues
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { fileId, provider: requestedProvider }: AnalyzeRequest = await req.json()
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication')
+    }
+
+    const sessionId = await requireFilePermission(supabase, fileId, user.id, 'analyze')
+
+    const { data: file, error: fileError } = await supabase
+      .from('code_files')
+      .select('id, session_id, content, language')
+      .eq('id', fileId)
+      .eq('session_id', sessionId)
+      .single()
+
+    if (fileError || !file) {
+      throw new Error('File not found')
+    }
+
+    const { healthScore, issues } = await analyzeCode(file.content, file.language, getProvider(requestedProvider))
+
+    const { data: codeFile, error: dbError } = await supabase
+      .from('code_files')
+      .update({ health_score: healthScore, issues })
+      .eq('id', file.id)
+      .select()
+      .single()
+
+    if (dbError) {
+      console.error('Database error:', dbError)
+      throw new Error(`Database error: ${dbError.message}`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        codeFile
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Analyze code error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider } from '../_shared/llm/index.ts'
+import { requireSessionPermission } from '../_shared/permissions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +13,10 @@ interface ChatRequest {
   message: string
   sessionId: string
   context?: string
+  // Set by the client's intent router; "meta" questions are about the session itself
+  intent?: string
+  // Provider override, honoured only when LLM_ALLOW_PROVIDER_OVERRIDE is set
+  provider?: string
 }
 
 serve(async (req) => {
@@ -19,15 +25,10 @@ serve(async (req) => {
   }
 
   try {
-    const { message, sessionId, context }: ChatRequest = await req.json()
+    const { message, sessionId, context, intent, provider: requestedProvider }: ChatRequest = await req.json()
 
-    // Get Groq API key from environment
-    const groqApiKey = Deno.env.get('GROQ_API_KEY')
-    if (!groqApiKey) {
-      throw new Error('GROQ_API_KEY not configured')
-    }
-
-    console.log('Using GROQ API Key for chat:', groqApiKey.substring(0, 10) + '...')
+    const provider = getProvider(requestedProvider)
+    console.log('Using LLM provider for chat:', provider.name)
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
@@ -48,6 +49,8 @@ serve(async (req) => {
       throw new Error('Invalid authentication')
     }
 
+    await requireSessionPermission(supabase, sessionId, user.id, 'chat')
+
     // Get recent conversation history
     const { data: recentMessages } = await supabase
       .from('messages')
@@ -61,7 +64,7 @@ serve(async (req) => {
       .map(msg => `${msg.type}: ${msg.content}`)
       .join('\n') || ''
 
-    // Generate AI response with Groq
+    // Generate AI response with the configured provider
     const systemPrompt = `You are CodexOrb AI, a helpful and intelligent coding assistant. You help users build software through natural conversation.
 
 Key traits:
@@ -76,35 +79,22 @@ Context: ${context}
 Recent conversation:
 ${conversationHistory}
 
+${intent === 'meta' ? 'The user is asking about this session itself (its files, participants or how to use CodexOrb). Answer from the context above.\n' : ''}
 Respond naturally to the user's message.`
 
-    console.log('Making request to Groq API for chat response...')
-
-    const groqResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: message }
-        ],
-        temperature: 0.7,
-        max_tokens: 512,
-      }),
+    console.log(`Requesting chat response from ${provider.name}...`)
+
+    const completion = await provider.complete({
+      tier: 'fast',
+      task: { kind: 'reply', prompt: message },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message }
+      ],
+      temperature: 0.7,
+      maxTokens: 512,
     })
-
-    if (!groqResponse.ok) {
-      const errorText = await groqResponse.text()
-      console.error('Groq API error:', groqResponse.status, errorText)
-      throw new Error(`Groq API error: ${groqResponse.status} - ${errorText}`)
-    }
-
-    const groqData = await groqResponse.json()
-    const aiResponse = groqData.choices[0]?.message?.content || 'I apologize, but I encountered an issue. Please try again.'
+    const aiResponse = completion || 'I apologize, but I encountered an issue. Please try again.'
 
     console.log('Chat response generated successfully')
 
@@ -115,7 +105,8 @@ Respond naturally to the user's message.`
         session_id: sessionId,
         user_id: user.id,
         content: aiResponse,
-        type: 'ai'
+        type: 'ai',
+        metadata: { provider: provider.name, mock: provider.mock }
       })
       .select()
       .single()
@@ -0,0 +1,158 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { analyzeCode, normalizeIssues } from '../_shared/analysis/index.ts'
+import { getProvider } from '../_shared/llm/index.ts'
+import { requireFilePermission } from '../_shared/permissions.ts'
+import { applySearchReplaceBlocks, parseSearchReplaceBlocks } from '../_shared/patch.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface FixIssueRequest {
+  fileId: string
+  issue: unknown
+  // Provider override, honoured only when LLM_ALLOW_PROVIDER_OVERRIDE is set
+  provider?: string
+}
+
+// Lines on each side of the issue that are quoted to the model
+const CONTEXT_LINES = 8
+
+// Proposes a fix for one analyzer issue without saving it: the client shows
+// the result as a diff and writes it back only if the user accepts.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { fileId, issue: rawIssue, provider: requestedProvider }: FixIssueRequest = await req.json()
+
+    const provider = getProvider(requestedProvider)
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication')
+    }
+
+    const sessionId = await requireFilePermission(supabase, fileId, user.id, 'edit')
+
+    const { data: file, error: fileError } = await supabase
+      .from('code_files')
+      .select('id, session_id, filename, content, language')
+      .eq('id', fileId)
+      .eq('session_id', sessionId)
+      .single()
+
+    if (fileError || !file) {
+      throw new Error('File not found')
+    }
+
+    const [issue] = normalizeIssues([rawIssue], file.content)
+    if (!issue) {
+      throw new Error('Invalid issue')
+    }
+
+    const lines = file.content.split('\n')
+    const from = Math.max(1, issue.line - CONTEXT_LINES)
+    const to = Math.min(lines.length, issue.endLine + CONTEXT_LINES)
+    const excerpt = lines
+      .slice(from - 1, to)
+      .map((line, index) => `${String(from + index).padStart(4)} | ${line}`)
+      .join('\n')
+    const instruction = `Fix ${issue.ruleId} on line ${issue.line}: ${issue.message}`
+
+    console.log(`Requesting fix for ${issue.ruleId} in ${file.filename} from ${provider.name}...`)
+
+    const patchText = await provider.complete({
+      tier: 'code',
+      task: { kind: 'edit', prompt: instruction, language: file.language, path: file.filename },
+      messages: [{
+        role: 'system',
+        content: `You are CodexOrb, an expert AI coding assistant fixing one reported problem in a ${file.language} file.
+
+Respond ONLY with one or more search/replace blocks in this exact format:
+
+<<<<<<< SEARCH
+lines copied exactly from the current file
+=======
+the new lines
+>>>>>>> REPLACE
+
+RULES:
+1. Change only what is needed to resolve the reported problem
+2. Each SEARCH section must match the current file exactly and uniquely
+3. Do not include the line numbers shown in the excerpt
+4. Do not add explanations or markdown fences
+
+Current ${file.filename}:
+${file.content}`
+      }, {
+        role: 'user',
+        content: `${instruction}
+${issue.suggestedFix ? `Suggested fix: ${issue.suggestedFix}\n` : ''}
+Lines ${from}-${to}:
+${excerpt}`
+      }],
+      temperature: 0.1,
+      maxTokens: 1024,
+    })
+
+    const blocks = parseSearchReplaceBlocks(patchText)
+    const patch = applySearchReplaceBlocks(file.content, blocks)
+
+    if (blocks.length === 0 || patch.failed.length > 0 || patch.content === file.content) {
+      throw new Error('The proposed fix could not be applied to the current file')
+    }
+
+    // Score the proposal so the preview can show whether it actually helps
+    const analysis = await analyzeCode(patch.content, file.language)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        fileId: file.id,
+        original: file.content,
+        proposed: patch.content,
+        healthScore: analysis.healthScore,
+        issues: analysis.issues,
+        provider: provider.name,
+        mock: provider.mock
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Fix issue error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
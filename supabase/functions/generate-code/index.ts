@@ -1,5 +1,10 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProvider, type LLMProvider } from '../_shared/llm/index.ts'
+import { analyzeCode } from '../_shared/analysis/index.ts'
+import { applySearchReplaceBlocks, parseSearchReplaceBlocks } from '../_shared/patch.ts'
+import { requireSessionPermission } from '../_shared/permissions.ts'
+import { getLanguage, languageForFile, LANGUAGES, type LanguageDefinition } from '../_shared/languages.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,30 +14,64 @@ const corsHeaders = {
 
 interface CodeGenerationRequest {
   prompt: string
-  language: 'javascript' | 'python'
+  // The session's language, an id from _shared/language-registry.ts.
+  // New files are written in it unless the request calls for others.
+  language: string
   context?: string
   sessionId: string
+  // "create" always adds new files, "edit" patches targetFileId (or the file
+  // named in the prompt); when omitted the mode is inferred from the prompt
+  mode?: 'create' | 'edit'
+  targetFileId?: string
+  // Provider override, honoured only when LLM_ALLOW_PROVIDER_OVERRIDE is set
+  provider?: string
   existingFiles?: Array<{
+    id?: string
     filename: string
     content: string
   }>
 }
 
+interface CodeFileRow {
+  id: string
+  session_id: string
+  filename: string
+  content: string
+  language: string
+}
+
+interface PlannedFile {
+  path: string
+  purpose: string
+  // Registry id, from the path's extension
+  language: string
+}
+
+type EmitEvent = (event: string, data: unknown) => void
+
+const MAX_PLANNED_FILES = 8
+
+interface GenerationContext {
+  request: CodeGenerationRequest
+  provider: LLMProvider
+  supabase: ReturnType<typeof createClient>
+  userId: string
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
-  try {
-    const { prompt, language, context, sessionId, existingFiles = [] }: CodeGenerationRequest = await req.json()
+  // Clients that accept an event stream get tokens as they are produced;
+  // everyone else gets the final JSON payload once generation has finished.
+  const wantsStream = req.headers.get('Accept')?.includes('text/event-stream') ?? false
 
-    // Get Groq API key from environment
-    const groqApiKey = Deno.env.get('GROQ_API_KEY')
-    if (!groqApiKey) {
-      throw new Error('GROQ_API_KEY not configured')
-    }
+  try {
+    const request: CodeGenerationRequest = await req.json()
 
-    console.log('Using GROQ API Key:', groqApiKey.substring(0, 10) + '...')
+    const provider = getProvider(request.provider)
+    console.log('Using LLM provider:', provider.name)
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
@@ -53,158 +92,47 @@ serve(async (req) => {
       throw new Error('Invalid authentication')
     }
 
-    // Generate code with Groq
-    const systemPrompt = `You are CodexOrb, an expert AI coding assistant. Generate high-quality, production-ready code based on user requests.
-
-IMPORTANT RULES:
-1. Generate ONLY the code content, no explanations or markdown
-2. Code must be syntactically correct and runnable
-3. Use modern best practices for ${language}
-4. Include proper error handling
-5. Add meaningful comments
-6. Follow clean code principles
-
-Context: ${context}
-Language: ${language}
-Existing files: ${existingFiles.map(f => f.filename).join(', ')}
-
-Generate code for: ${prompt}`
-
-    console.log('Making request to Groq API...')
-
-    const groqResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-70b-versatile',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2048,
-      }),
-    })
-
-    if (!groqResponse.ok) {
-      const errorText = await groqResponse.text()
-      console.error('Groq API error:', groqResponse.status, errorText)
-      throw new Error(`Groq API error: ${groqResponse.status} - ${errorText}`)
-    }
-
-    const groqData = await groqResponse.json()
-    const generatedCode = groqData.choices[0]?.message?.content || ''
-
-    console.log('Code generated successfully, length:', generatedCode.length)
-
-    // Analyze code quality
-    const analysisResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant',
-        messages: [{
-          role: 'user',
-          content: `Analyze this ${language} code for quality, security, and best practices. Return JSON with healthScore (0-100) and issues array:
-
-\`\`\`${language}
-${generatedCode}
-\`\`\`
-
-JSON only:`
-        }],
-        temperature: 0.1,
-        max_tokens: 1024,
-      }),
-    })
-
-    let healthScore = 85
-    let issues: any[] = []
-
-    if (analysisResponse.ok) {
-      try {
-        const analysisData = await analysisResponse.json()
-        const analysis = JSON.parse(analysisData.choices[0]?.message?.content || '{}')
-        healthScore = Math.max(60, Math.min(100, analysis.healthScore || 85))
-        issues = analysis.issues || []
-        console.log('Code analysis completed, health score:', healthScore)
-      } catch (e) {
-        console.log('Analysis parsing failed, using defaults')
-      }
-    }
-
-    // Generate filename
-    const filename = generateFilename(prompt, language)
-
-    // Save to database
-    const { data: codeFile, error: dbError } = await supabase
-      .from('code_files')
-      .insert({
-        session_id: sessionId,
-        filename,
-        content: generatedCode,
-        language,
-        health_score: healthScore,
-        issues
+    await requireSessionPermission(supabase, request.sessionId, user.id, 'generate')
+
+    const context: GenerationContext = { request, provider, supabase, userId: user.id }
+
+    if (wantsStream) {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream({
+        async start(controller) {
+          const emit: EmitEvent = (event, data) => {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+          }
+
+          try {
+            const result = await generateCode(context, emit)
+            emit('done', { success: true, ...result })
+          } catch (error) {
+            console.error('Streaming generation error:', error)
+            emit('error', { success: false, error: error.message })
+          } finally {
+            controller.close()
+          }
+        }
       })
-      .select()
-      .single()
 
-    if (dbError) {
-      console.error('Database error:', dbError)
-      throw new Error(`Database error: ${dbError.message}`)
-    }
-
-    // Generate AI response
-    const aiResponseData = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${groqApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant',
-        messages: [{
-          role: 'system',
-          content: 'You are CodexOrb AI, a helpful coding assistant. Respond conversationally about the code you just generated.'
-        }, {
-          role: 'user',
-          content: `I generated ${filename} with ${language} code for: ${prompt}. Give a brief, friendly response about what was created.`
-        }],
-        temperature: 0.7,
-        max_tokens: 256,
-      }),
-    })
-
-    let aiMessage = `I've generated ${filename} for you! The code includes everything you requested.`
-    if (aiResponseData.ok) {
-      const aiData = await aiResponseData.json()
-      aiMessage = aiData.choices[0]?.message?.content || aiMessage
-    }
-
-    // Save AI message
-    await supabase
-      .from('messages')
-      .insert({
-        session_id: sessionId,
-        user_id: user.id,
-        content: aiMessage,
-        type: 'ai'
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+        status: 200,
       })
+    }
 
-    console.log('Code generation completed successfully')
+    const result = await generateCode(context, () => {})
 
     return new Response(
       JSON.stringify({
         success: true,
-        codeFile,
-        aiMessage
+        ...result
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -227,9 +155,403 @@ JSON only:`
   }
 })
 
-function generateFilename(prompt: string, language: string): string {
+async function generateCode(context: GenerationContext, emit: EmitEvent) {
+  const target = await findEditTarget(context)
+  return target ? editFile(context, target, emit) : createFiles(context, emit)
+}
+
+// Resolves the file an edit request applies to: the explicit targetFileId, or
+// else the existing file whose name appears in the prompt.
+async function findEditTarget({ request, supabase }: GenerationContext): Promise<CodeFileRow | null> {
+  const { mode, targetFileId, prompt, sessionId, existingFiles = [] } = request
+  if (mode === 'create') return null
+
+  let fileId = targetFileId
+  if (!fileId) {
+    const lowerPrompt = prompt.toLowerCase()
+    const mentioned = existingFiles
+      .filter(f => f.id && (
+        lowerPrompt.includes(f.filename.toLowerCase()) ||
+        lowerPrompt.includes(f.filename.split('/').pop()!.toLowerCase())
+      ))
+      .sort((a, b) => b.filename.length - a.filename.length)
+    fileId = mentioned[0]?.id
+  }
+
+  if (!fileId) {
+    if (mode === 'edit') throw new Error('No file to edit was specified')
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('code_files')
+    .select('*')
+    .eq('id', fileId)
+    .eq('session_id', sessionId)
+    .single()
+
+  if (error || !data) {
+    throw new Error('The file to edit was not found in this session')
+  }
+
+  return data as CodeFileRow
+}
+
+async function editFile(
+  { request, provider, supabase, userId }: GenerationContext,
+  target: CodeFileRow,
+  emit: EmitEvent
+) {
+  const { prompt, context, sessionId } = request
+  const { filename } = target
+  // Files generated before languages were detected per file carry their
+  // session's language; the edit stores the one their extension names
+  const language = languageForFile(filename)?.id ?? target.language
+
+  emit('plan', { files: [{ path: filename, purpose: `Edit: ${prompt}` }] })
+  emit('file_start', { filename, language, mode: 'edit' })
+
+  console.log(`Requesting patch for ${filename}...`)
+
+  const patchText = await provider.stream({
+    tier: 'code',
+    task: { kind: 'edit', prompt, language, path: filename },
+    messages: [{
+      role: 'system',
+      content: `You are CodexOrb, an expert AI coding assistant editing an existing ${language} file.
+
+Respond ONLY with one or more search/replace blocks in this exact format:
+
+<<<<<<< SEARCH
+lines copied exactly from the current file
+=======
+the new lines
+>>>>>>> REPLACE
+
+RULES:
+1. Each SEARCH section must match the current file exactly and uniquely
+2. Keep blocks small; include just enough context to be unique
+3. Use an empty SEARCH section to append to the end of the file
+4. Do not add explanations or markdown fences
+
+Context: ${context}
+
+Current ${filename}:
+${target.content}`
+    }, {
+      role: 'user',
+      content: prompt
+    }],
+    temperature: 0.2,
+    maxTokens: 2048,
+  }, (token) => emit('token', { filename, content: token }))
+
+  const blocks = parseSearchReplaceBlocks(patchText)
+  const patch = applySearchReplaceBlocks(target.content, blocks)
+  const patchApplied = blocks.length > 0 && patch.failed.length === 0
+  let content = patch.content
+
+  if (!patchApplied) {
+    // Fall back to regenerating the whole file with the edit applied
+    console.log(`Patch for ${filename} did not apply (${patch.failed.length}/${blocks.length} blocks failed), rewriting file`)
+    emit('file_reset', { filename })
+
+    content = await provider.stream({
+      tier: 'code',
+      task: { kind: 'file', prompt, language, path: filename },
+      messages: [{
+        role: 'system',
+        content: `You are CodexOrb, an expert AI coding assistant. Rewrite the ${language} file ${filename} with the requested change applied.
+
+IMPORTANT RULES:
+1. Output ONLY the complete new file content, no explanations or markdown
+2. Preserve everything the request does not ask to change
+3. Code must be syntactically correct and runnable
+
+Context: ${context}
+
+Current ${filename}:
+${target.content}`
+      }, {
+        role: 'user',
+        content: prompt
+      }],
+      temperature: 0.2,
+      maxTokens: 4096,
+    }, (token) => emit('token', { filename, content: token }))
+  }
+
+  emit('file_end', { filename })
+  emit('status', { stage: 'analyzing' })
+
+  const { healthScore, issues } = await analyzeCode(content, language, provider)
+
+  emit('status', { stage: 'saving' })
+
+  const { data: codeFile, error: dbError } = await supabase
+    .from('code_files')
+    .update({
+      content,
+      language,
+      health_score: healthScore,
+      issues,
+      updated_by: userId,
+      update_source: 'ai',
+      update_prompt: prompt
+    })
+    .eq('id', target.id)
+    .select()
+    .single()
+
+  if (dbError) {
+    console.error('Database error:', dbError)
+    throw new Error(`Database error: ${dbError.message}`)
+  }
+
+  const aiMessage = patchApplied
+    ? `I've updated ${filename} (${patch.applied} change${patch.applied !== 1 ? 's' : ''} applied).`
+    : `I've rewritten ${filename} with your changes.`
+
+  const { data: message } = await supabase
+    .from('messages')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      content: aiMessage,
+      type: 'ai',
+      metadata: { editedFiles: [target.id], patchApplied, provider: provider.name, mock: provider.mock }
+    })
+    .select()
+    .single()
+
+  console.log('Code edit completed successfully')
+
+  return { codeFiles: [codeFile], aiMessage, message }
+}
+
+async function createFiles(
+  { request, provider, supabase, userId }: GenerationContext,
+  emit: EmitEvent
+) {
+  const { prompt, language, context, sessionId, existingFiles = [] } = request
+  const definition = getLanguage(language)
+  if (!definition) {
+    throw new Error(`Generating ${language} code is not supported`)
+  }
+
+  // Plan the files first so multi-file requests come back as one batch
+  emit('status', { stage: 'planning' })
+  const plan = await planFiles(provider, request, definition)
+  emit('plan', { files: plan })
+
+  console.log('File plan:', plan.map(f => f.path).join(', '))
+
+  const generated: Array<PlannedFile & { content: string }> = []
+
+  for (const file of plan) {
+    const fileDefinition = getLanguage(file.language)!
+    emit('file_start', { filename: file.path, language: file.language })
+
+    // Generate code with the configured provider
+    const systemPrompt = `You are CodexOrb, an expert AI coding assistant. Generate high-quality, production-ready code based on user requests.
+
+IMPORTANT RULES:
+1. Generate ONLY the code content for ${file.path}, no explanations or markdown
+2. Code must be syntactically correct and runnable
+3. Use modern best practices for ${fileDefinition.label}: ${fileDefinition.conventions}
+4. Include proper error handling
+5. Add meaningful comments
+6. Follow clean code principles
+7. Import from the other planned files using their exact paths
+
+Context: ${context}
+Language: ${fileDefinition.label}
+Existing files: ${existingFiles.map(f => f.filename).join(', ')}
+
+Project plan:
+${plan.map(f => `- ${f.path} (${getLanguage(f.language)!.label}): ${f.purpose}`).join('\n')}
+
+Files already written:
+${generated.map(f => `--- ${f.path}\n${f.content}`).join('\n\n') || 'none'}
+
+Generate ${file.path} (${file.purpose}) for: ${prompt}`
+
+    console.log(`Streaming ${file.path} from ${provider.name}...`)
+
+    const content = await provider.stream({
+      tier: 'code',
+      task: { kind: 'file', prompt, language: file.language, path: file.path },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.3,
+      maxTokens: 2048,
+    }, (token) => emit('token', { filename: file.path, content: token }))
+
+    console.log(`Generated ${file.path}, length:`, content.length)
+    emit('file_end', { filename: file.path })
+    generated.push({ ...file, content })
+  }
+
+  emit('status', { stage: 'analyzing' })
+
+  const rows = []
+  for (const file of generated) {
+    const { healthScore, issues } = await analyzeCode(file.content, file.language, provider)
+    rows.push({
+      session_id: sessionId,
+      filename: file.path,
+      content: file.content,
+      language: file.language,
+      health_score: healthScore,
+      issues,
+      updated_by: userId,
+      update_source: 'ai',
+      update_prompt: prompt
+    })
+  }
+
+  emit('status', { stage: 'saving' })
+
+  // Save all files in one batch
+  const { data: codeFiles, error: dbError } = await supabase
+    .from('code_files')
+    .insert(rows)
+    .select()
+
+  if (dbError) {
+    console.error('Database error:', dbError)
+    throw new Error(`Database error: ${dbError.message}`)
+  }
+
+  // Generate AI response
+  const fileList = generated.map(f => `${f.path} (${f.purpose})`).join(', ')
+  const labels = [...new Set(generated.map(f => getLanguage(f.language)!.label))].join(' and ')
+  const summary = generated.length === 1
+    ? `I've generated ${generated[0].path} for you! The code includes everything you requested.`
+    : `I've generated ${generated.length} files for you: ${generated.map(f => f.path).join(', ')}.`
+
+  const aiMessage = await provider.complete({
+    tier: 'fast',
+    task: { kind: 'summary', prompt, language },
+    messages: [{
+      role: 'system',
+      content: 'You are CodexOrb AI, a helpful coding assistant. Respond conversationally about the code you just generated.'
+    }, {
+      role: 'user',
+      content: `I generated ${generated.length} ${labels} file(s) for: ${prompt}. Files: ${fileList}. Give a brief, friendly response about what was created.`
+    }],
+    temperature: 0.7,
+    maxTokens: 256,
+  }).catch((error) => {
+    console.log('AI summary failed, using default:', error.message)
+    return ''
+  }) || summary
+
+  // Save AI message
+  const { data: message } = await supabase
+    .from('messages')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      content: aiMessage,
+      type: 'ai',
+      metadata: {
+        generatedFiles: (codeFiles ?? []).map(f => f.id),
+        provider: provider.name,
+        mock: provider.mock
+      }
+    })
+    .select()
+    .single()
+
+  console.log('Code generation completed successfully')
+
+  return { codeFiles, aiMessage, message }
+}
+
+// Asks the model for the list of files needed to satisfy the prompt, in the
+// session's language or any other registered one the request calls for. Falls
+// back to a single keyword-named file when the plan is missing or unusable.
+async function planFiles(provider: LLMProvider, request: CodeGenerationRequest, definition: LanguageDefinition): Promise<PlannedFile[]> {
+  const { prompt, language, context, existingFiles = [] } = request
+  const { extensions } = definition
+  const taken = new Set(existingFiles.map(f => f.filename))
+  const fallback = [{ path: uniquePath(generateFilename(prompt, extensions[0]), taken), purpose: prompt, language }]
+  const supported = LANGUAGES.map(l => `${l.label} (${l.extensions.join(', ')})`).join(', ')
+
+  try {
+    const raw = await provider.complete({
+      tier: 'code',
+      task: { kind: 'plan', prompt, language },
+      messages: [{
+        role: 'system',
+        content: `You are CodexOrb, an expert software architect. Plan the source files needed for a request in a ${definition.label} project.
+
+Return JSON only, shaped as {"files": [{"path": "relative/path${extensions[0]}", "purpose": "one sentence"}]}
+
+RULES:
+1. Between 1 and ${MAX_PLANNED_FILES} files; use a single file when that is enough
+2. Paths are relative, use forward slashes and end in the extension of their language
+3. Write files in ${definition.label} unless part of the request calls for another language, such as an HTML page with its stylesheet or a SQL schema for the data; only these languages are supported: ${supported}
+4. Order files so dependencies come before the files that import them
+5. Do not repeat existing files
+6. Place files in the directories their language conventionally uses (for example src/, src/routes/, static/ or tests/), following the layout of the existing files
+
+Context: ${context}
+Existing files: ${existingFiles.map(f => f.filename).join(', ') || 'none'}`
+      }, {
+        role: 'user',
+        content: prompt
+      }],
+      temperature: 0.2,
+      maxTokens: 512,
+      json: true,
+    })
+
+    const parsed = JSON.parse(raw)
+    const seen = new Set(taken)
+    const files: PlannedFile[] = []
+
+    for (const entry of Array.isArray(parsed.files) ? parsed.files : []) {
+      const path = normalizePath(String(entry?.path ?? ''))
+      const planned = languageForFile(path)
+      if (!path || seen.has(path) || !planned) continue
+      seen.add(path)
+      files.push({ path, purpose: String(entry?.purpose ?? '').trim() || prompt, language: planned.id })
+    }
+
+    return files.length > 0 ? files.slice(0, MAX_PLANNED_FILES) : fallback
+  } catch (error) {
+    console.log('File planning failed, generating a single file:', error.message)
+    return fallback
+  }
+}
+
+function normalizePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/')
+}
+
+// Paths are unique within a session, so a clash gets a numbered suffix:
+// utils.js becomes utils-2.js
+function uniquePath(path: string, taken: Set<string>): string {
+  if (!taken.has(path)) return path
+  const dot = path.lastIndexOf('.')
+  const stem = dot > path.lastIndexOf('/') ? path.slice(0, dot) : path
+  const ext = path.slice(stem.length)
+  let n = 2
+  while (taken.has(`${stem}-${n}${ext}`)) n++
+  return `${stem}-${n}${ext}`
+}
+
+function generateFilename(prompt: string, extension: string): string {
   const lowerPrompt = prompt.toLowerCase()
-  const ext = language === 'javascript' ? 'js' : 'py'
+  const ext = extension.slice(1)
   
   if (lowerPrompt.includes('todo') || lowerPrompt.includes('task')) {
     return `todo-app.${ext}`
@@ -0,0 +1,160 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getMailer } from '../_shared/mail/index.ts'
+import { requireSessionPermission, type SessionRole } from '../_shared/permissions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface SendInviteRequest {
+  sessionId: string
+  email: string
+  role: SessionRole
+}
+
+// Owners cannot be invited; ownership stays with whoever created the session
+const INVITABLE_ROLES: SessionRole[] = ['developer', 'designer', 'qa', 'viewer']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Issues an invitation and emails its link. Inviting an address that already
+// has a pending invitation replaces it, so only the newest link works.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { sessionId, email: rawEmail, role }: SendInviteRequest = await req.json()
+    const email = rawEmail?.trim().toLowerCase()
+
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw new Error('A valid email address is required')
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw new Error(`Invalid role: ${role}`)
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('No authorization header')
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    )
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication')
+    }
+
+    await requireSessionPermission(supabase, sessionId, user.id, 'manage')
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, name')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      throw new Error('Session not found')
+    }
+
+    await supabase
+      .from('invitations')
+      .update({ status: 'revoked' })
+      .eq('session_id', sessionId)
+      .eq('email', email)
+      .eq('status', 'pending')
+
+    const ttlDays = Number(Deno.env.get('INVITE_TTL_DAYS') || 7)
+    const { data: invitation, error: dbError } = await supabase
+      .from('invitations')
+      .insert({
+        session_id: sessionId,
+        email,
+        role,
+        token: createToken(),
+        invited_by: user.id,
+        expires_at: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select()
+      .single()
+
+    if (dbError) {
+      console.error('Database error:', dbError)
+      throw new Error(`Database error: ${dbError.message}`)
+    }
+
+    const appUrl = Deno.env.get('APP_URL') || req.headers.get('Origin') || 'http://localhost:5173'
+    const acceptUrl = `${appUrl.replace(/\/$/, '')}/invite/${invitation.token}`
+    const inviter = user.email?.split('@')[0] || 'A CodexOrb user'
+
+    const mailer = getMailer()
+    await mailer.send({
+      to: email,
+      subject: `${inviter} invited you to "${session.name}" on CodexOrb`,
+      text: [
+        `${inviter} invited you to join the CodexOrb session "${session.name}" as ${role}.`,
+        '',
+        `Accept the invitation: ${acceptUrl}`,
+        '',
+        `The link expires in ${ttlDays} days and only works when signed in as ${email}.`,
+      ].join('\n'),
+      html: `<p>${escapeHtml(inviter)} invited you to join the CodexOrb session <strong>${escapeHtml(session.name)}</strong> as ${role}.</p>
+<p><a href="${acceptUrl}">Accept the invitation</a></p>
+<p>The link expires in ${ttlDays} days and only works when signed in as ${escapeHtml(email)}.</p>`,
+    })
+
+    console.log(`Invitation for ${email} to session ${sessionId} sent with the ${mailer.name} mailer`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        invitation,
+        acceptUrl,
+        // When the mailer only stores messages, the inviter shares the link
+        delivered: mailer.delivers
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Send invite error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
+
+function createToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,65 @@
+/*
+  # Typed code issues
+
+  1. Changes
+    - `code_files.issues` must be a JSON array of issue objects with the fields
+      the editor relies on: ruleId, severity, message, line, column, endLine,
+      endColumn, category and source (suggestedFix is optional)
+    - Existing rows hold free-form model output; entries that do not match the
+      schema are dropped
+
+  2. New Functions
+    - `code_issue_is_valid(jsonb)` checks a single issue object
+    - `code_issues_are_valid(jsonb)` checks the whole array, used by the constraint
+*/
+
+CREATE OR REPLACE FUNCTION code_issue_is_valid(issue jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(issue) = 'object'
+    AND jsonb_typeof(issue->'ruleId') = 'string'
+    AND issue->>'severity' IN ('error', 'warning', 'info')
+    AND jsonb_typeof(issue->'message') = 'string'
+    AND jsonb_typeof(issue->'line') = 'number'
+    AND jsonb_typeof(issue->'column') = 'number'
+    AND jsonb_typeof(issue->'endLine') = 'number'
+    AND jsonb_typeof(issue->'endColumn') = 'number'
+    AND issue->>'category' IN ('syntax', 'security', 'bug', 'error-handling', 'maintainability', 'style')
+    AND issue->>'source' IN ('analyzer', 'llm')
+    AND (NOT issue ? 'suggestedFix' OR jsonb_typeof(issue->'suggestedFix') = 'string');
+$$;
+
+CREATE OR REPLACE FUNCTION code_issues_are_valid(issues jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(issues) = 'array'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(issues) AS issue
+      WHERE NOT code_issue_is_valid(issue)
+    );
+$$;
+
+-- Drop legacy entries that do not fit the schema
+UPDATE code_files
+SET issues = COALESCE((
+  SELECT jsonb_agg(issue)
+  FROM jsonb_array_elements(issues) AS issue
+  WHERE code_issue_is_valid(issue)
+), '[]'::jsonb)
+WHERE issues IS NOT NULL
+  AND jsonb_typeof(issues) = 'array'
+  AND NOT code_issues_are_valid(issues);
+
+UPDATE code_files
+SET issues = '[]'::jsonb
+WHERE issues IS NULL OR jsonb_typeof(issues) <> 'array';
+
+ALTER TABLE code_files ALTER COLUMN issues SET NOT NULL;
+
+ALTER TABLE code_files DROP CONSTRAINT IF EXISTS code_files_issues_valid;
+ALTER TABLE code_files
+  ADD CONSTRAINT code_files_issues_valid CHECK (code_issues_are_valid(issues));
@@ -0,0 +1,123 @@
+/*
+  # Code file version history
+
+  1. Changes to `code_files`
+    - `updated_by` (uuid, who wrote the current content)
+    - `update_source` (text, 'ai' or 'user')
+    - `update_prompt` (text, the prompt behind an AI change)
+    Writes made with a user's token are always recorded as that user's own
+    edits; only the edge functions (service role) can record AI changes.
+
+  2. New Tables
+    - `code_file_versions`
+      - `id` (uuid, primary key)
+      - `code_file_id` (uuid, references code_files)
+      - `session_id` (uuid, references sessions)
+      - `version` (integer, 1 for the first content of a file)
+      - `filename` (text, file name at the time)
+      - `content` (text, full file content)
+      - `author_id` (uuid, references auth.users)
+      - `source` (text, 'ai' or 'user')
+      - `prompt` (text, the prompt behind an AI change)
+      - `created_at` (timestamp)
+
+  3. Triggers
+    - Every insert into `code_files`, and every update that changes its
+      content, appends a version
+
+  4. Security
+    - Enable RLS on `code_file_versions`
+    - Versions are readable by whoever can read the file; they are only
+      written by the trigger
+*/
+
+ALTER TABLE code_files ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE code_files ADD COLUMN IF NOT EXISTS update_source text NOT NULL DEFAULT 'user' CHECK (update_source IN ('ai', 'user'));
+ALTER TABLE code_files ADD COLUMN IF NOT EXISTS update_prompt text;
+
+CREATE TABLE IF NOT EXISTS code_file_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code_file_id uuid REFERENCES code_files(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES sessions(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  filename text NOT NULL,
+  content text NOT NULL,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  source text NOT NULL CHECK (source IN ('ai', 'user')),
+  prompt text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (code_file_id, version)
+);
+
+ALTER TABLE code_file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of files they can view"
+  ON code_file_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    session_id IN (
+      SELECT session_id FROM session_participants WHERE user_id = auth.uid()
+    ) OR
+    session_id IN (
+      SELECT id FROM sessions WHERE owner_id = auth.uid() OR is_public = true
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_code_file_versions_file ON code_file_versions(code_file_id, version DESC);
+
+-- Client writes are attributed to the signed-in user
+CREATE OR REPLACE FUNCTION stamp_code_file_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.updated_by := auth.uid();
+    NEW.update_source := 'user';
+    NEW.update_prompt := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_code_file_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO code_file_versions (code_file_id, session_id, version, filename, content, author_id, source, prompt)
+  VALUES (
+    NEW.id,
+    NEW.session_id,
+    COALESCE((SELECT max(version) FROM code_file_versions WHERE code_file_id = NEW.id), 0) + 1,
+    NEW.filename,
+    NEW.content,
+    NEW.updated_by,
+    NEW.update_source,
+    NEW.update_prompt
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_code_file_author ON code_files;
+CREATE TRIGGER stamp_code_file_author
+  BEFORE INSERT OR UPDATE ON code_files
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_code_file_author();
+
+DROP TRIGGER IF EXISTS record_code_file_version_insert ON code_files;
+CREATE TRIGGER record_code_file_version_insert
+  AFTER INSERT ON code_files
+  FOR EACH ROW
+  EXECUTE FUNCTION record_code_file_version();
+
+DROP TRIGGER IF EXISTS record_code_file_version_update ON code_files;
+CREATE TRIGGER record_code_file_version_update
+  AFTER UPDATE OF content ON code_files
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION record_code_file_version();
+
+-- Existing files start their history with their current content
+INSERT INTO code_file_versions (code_file_id, session_id, version, filename, content, source, created_at)
+SELECT id, session_id, 1, filename, content, 'user', updated_at
+FROM code_files
+WHERE NOT EXISTS (SELECT 1 FROM code_file_versions v WHERE v.code_file_id = code_files.id);
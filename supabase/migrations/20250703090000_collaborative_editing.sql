@@ -0,0 +1,73 @@
+/*
+  # Collaborative editing state
+
+  1. Changes to `code_files`
+    - `collab_state` (text, base64 Yjs document saved together with the
+      content by collaborative editors)
+
+  2. Triggers
+    - A content change that does not also write `collab_state` (an AI
+      generation, a fix or a restore) clears it, so editors that are open
+      on the file start again from the new content
+    - Collaborative saves arrive every few seconds while people type; they
+      are folded into the newest version when that version is the same
+      author's own edit from the last 10 minutes, instead of appending one
+      version per save
+*/
+
+ALTER TABLE code_files ADD COLUMN IF NOT EXISTS collab_state text;
+
+CREATE OR REPLACE FUNCTION clear_stale_collab_state()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content AND NEW.collab_state IS NOT DISTINCT FROM OLD.collab_state THEN
+    NEW.collab_state := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_stale_collab_state ON code_files;
+CREATE TRIGGER clear_stale_collab_state
+  BEFORE UPDATE ON code_files
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_collab_state();
+
+CREATE OR REPLACE FUNCTION record_code_file_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest code_file_versions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.collab_state IS NOT NULL AND NEW.collab_state IS DISTINCT FROM OLD.collab_state THEN
+    SELECT * INTO latest
+    FROM code_file_versions
+    WHERE code_file_id = NEW.id
+    ORDER BY version DESC
+    LIMIT 1;
+
+    IF FOUND
+      AND latest.source = 'user'
+      AND latest.author_id IS NOT DISTINCT FROM NEW.updated_by
+      AND latest.created_at > now() - interval '10 minutes'
+    THEN
+      UPDATE code_file_versions
+      SET content = NEW.content, filename = NEW.filename
+      WHERE id = latest.id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO code_file_versions (code_file_id, session_id, version, filename, content, author_id, source, prompt)
+  VALUES (
+    NEW.id,
+    NEW.session_id,
+    COALESCE((SELECT max(version) FROM code_file_versions WHERE code_file_id = NEW.id), 0) + 1,
+    NEW.filename,
+    NEW.content,
+    NEW.updated_by,
+    NEW.update_source,
+    NEW.update_prompt
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
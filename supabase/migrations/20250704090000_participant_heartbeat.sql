@@ -0,0 +1,26 @@
+/*
+  # Participant heartbeat
+
+  1. Functions
+    - `touch_session_participant(target_session_id uuid)` sets
+      `session_participants.last_active` to now() for the signed-in user.
+      Clients call it periodically while a session is open.
+
+  2. Security
+    - The function runs as SECURITY DEFINER and only ever touches
+      `last_active` on the caller's row. The heartbeat does not depend on
+      "Users can update own participant records", which still exists here but
+      also lets participants change their own role, so that policy can be
+      dropped once roles are enforced
+*/
+
+CREATE OR REPLACE FUNCTION touch_session_participant(target_session_id uuid)
+RETURNS void AS $$
+  UPDATE session_participants
+  SET last_active = now()
+  WHERE session_id = target_session_id
+    AND user_id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION touch_session_participant(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION touch_session_participant(uuid) TO authenticated;
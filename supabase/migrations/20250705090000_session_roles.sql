@@ -0,0 +1,123 @@
+/*
+  # Enforce session roles
+
+  1. Permission matrix (same as supabase/functions/_shared/session-roles.ts)
+    - chat: owner, developer, designer, qa
+    - generate: owner, developer
+    - edit: owner, developer
+    - run: owner, developer, designer, qa
+    - analyze: owner, developer, qa
+    - manage: owner
+
+  2. Functions
+    - `session_role(target_session_id)` returns the caller's role: 'owner'
+      for the session owner, otherwise their participant role, or NULL
+    - `session_can(target_session_id, action)` checks the matrix
+
+  3. Policy changes
+    - Messages can only be posted by roles that may chat
+    - Code files can only be created and changed by roles that may edit
+    - Users can no longer update their own participant row, which let them
+      pick any role; only the owner changes roles
+    - Users can only add themselves to public sessions, and only as viewers
+    - New participants default to 'viewer'
+    - Collaborative editing channels (`code_file:<file id>:...`) are private
+      and open only to roles that may edit the file
+*/
+
+CREATE OR REPLACE FUNCTION session_role(target_session_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM sessions WHERE id = target_session_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role FROM session_participants
+      WHERE session_id = target_session_id AND user_id = auth.uid()
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION session_can(target_session_id uuid, action text)
+RETURNS boolean AS $$
+  SELECT COALESCE(session_role(target_session_id) = ANY (
+    CASE action
+      WHEN 'chat' THEN ARRAY['owner', 'developer', 'designer', 'qa']
+      WHEN 'generate' THEN ARRAY['owner', 'developer']
+      WHEN 'edit' THEN ARRAY['owner', 'developer']
+      WHEN 'run' THEN ARRAY['owner', 'developer', 'designer', 'qa']
+      WHEN 'analyze' THEN ARRAY['owner', 'developer', 'qa']
+      WHEN 'manage' THEN ARRAY['owner']
+      ELSE ARRAY[]::text[]
+    END
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION session_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION session_can(uuid, text) TO authenticated;
+
+-- Messages
+DROP POLICY IF EXISTS "Users can create messages in sessions they participate in" ON messages;
+CREATE POLICY "Users can create messages in sessions where their role may chat"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND session_can(session_id, 'chat'));
+
+-- Code files
+DROP POLICY IF EXISTS "Users can create code files in sessions they participate in" ON code_files;
+CREATE POLICY "Users can create code files in sessions where their role may edit"
+  ON code_files
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (session_can(session_id, 'edit'));
+
+DROP POLICY IF EXISTS "Users can update code files in sessions they participate in" ON code_files;
+CREATE POLICY "Users can update code files in sessions where their role may edit"
+  ON code_files
+  FOR UPDATE
+  TO authenticated
+  USING (session_can(session_id, 'edit'))
+  WITH CHECK (session_can(session_id, 'edit'));
+
+-- Participants
+ALTER TABLE session_participants ALTER COLUMN role SET DEFAULT 'viewer';
+
+DROP POLICY IF EXISTS "Users can update own participant records" ON session_participants;
+
+DROP POLICY IF EXISTS "Users can join as participants" ON session_participants;
+CREATE POLICY "Users can join public sessions as viewers"
+  ON session_participants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    role = 'viewer' AND
+    session_id IN (
+      SELECT id FROM sessions WHERE is_public = true
+    )
+  );
+
+-- Collaborative editing channels
+CREATE OR REPLACE FUNCTION can_edit_collab_topic(topic text)
+RETURNS boolean AS $$
+  SELECT topic LIKE 'code_file:%' AND EXISTS (
+    SELECT 1 FROM code_files
+    WHERE id::text = split_part(topic, ':', 2)
+      AND session_can(session_id, 'edit')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_edit_collab_topic(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Editors can receive collaborative edits" ON realtime.messages;
+CREATE POLICY "Editors can receive collaborative edits"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (can_edit_collab_topic(realtime.topic()));
+
+DROP POLICY IF EXISTS "Editors can send collaborative edits" ON realtime.messages;
+CREATE POLICY "Editors can send collaborative edits"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_collab_topic(realtime.topic()));
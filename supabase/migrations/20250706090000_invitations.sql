@@ -0,0 +1,76 @@
+/*
+  # Session invitations
+
+  1. New Tables
+    - `invitations`
+      - `id` (uuid, primary key)
+      - `session_id` (uuid, references sessions)
+      - `email` (text, lower-cased address the invitation was sent to)
+      - `role` (text, role granted on acceptance; never 'owner')
+      - `token` (text, unique secret in the accept link)
+      - `invited_by` (uuid, references auth.users)
+      - `status` (text, 'pending', 'accepted', 'revoked' or 'expired')
+      - `expires_at` (timestamp)
+      - `accepted_by` (uuid, references auth.users)
+      - `accepted_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `invitations`
+    - Roles that may manage the session can list its invitations and revoke
+      pending ones; issuing and accepting go through the send-invite and
+      accept-invite edge functions
+    - Members of a session, such as accepted invitees, can see the session
+      and its other members even when it is private
+*/
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES sessions(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email = lower(email)),
+  role text NOT NULL CHECK (role IN ('developer', 'designer', 'qa', 'viewer')),
+  token text UNIQUE NOT NULL,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked', 'expired')),
+  expires_at timestamptz NOT NULL,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Session managers can view invitations"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (session_can(session_id, 'manage'));
+
+CREATE POLICY "Session managers can revoke invitations"
+  ON invitations
+  FOR UPDATE
+  TO authenticated
+  USING (session_can(session_id, 'manage') AND status = 'pending')
+  WITH CHECK (session_can(session_id, 'manage') AND status = 'revoked');
+
+CREATE INDEX IF NOT EXISTS idx_invitations_session ON invitations(session_id, created_at DESC);
+
+-- At most one live invitation per address and session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending_email
+  ON invitations(session_id, email)
+  WHERE status = 'pending';
+
+-- Sessions were only visible to their owner or when public
+DROP POLICY IF EXISTS "Members can view their sessions" ON sessions;
+CREATE POLICY "Members can view their sessions"
+  ON sessions
+  FOR SELECT
+  TO authenticated
+  USING (session_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can view participants in their sessions" ON session_participants;
+CREATE POLICY "Members can view participants in their sessions"
+  ON session_participants
+  FOR SELECT
+  TO authenticated
+  USING (session_role(session_id) IS NOT NULL);
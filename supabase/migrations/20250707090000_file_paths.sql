@@ -0,0 +1,63 @@
+/*
+  # File paths
+
+  1. Changes
+    - `code_files.filename` holds a relative path such as `src/routes/auth.js`.
+      `normalize_file_path` turns backslashes into slashes and drops empty,
+      `.` and `..` segments; a trigger applies it to every write and a check
+      rejects names that are empty once normalised
+    - Existing names are normalised, and files that end up sharing a path in
+      the same session are renamed `name-2.ext`, `name-3.ext`, ...
+    - Paths are unique per session (`idx_code_files_session_path`)
+
+  2. Security
+    - Participants whose role may edit can delete files; their history goes
+      with them (`code_file_versions` cascades)
+*/
+
+CREATE OR REPLACE FUNCTION normalize_file_path(path text)
+RETURNS text AS $$
+  SELECT COALESCE(string_agg(segment, '/' ORDER BY position), '')
+  FROM unnest(string_to_array(replace(trim(path), '\', '/'), '/')) WITH ORDINALITY AS s(segment, position)
+  WHERE segment NOT IN ('', '.', '..');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_code_file_path()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.filename := normalize_file_path(NEW.filename);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS normalize_code_file_path ON code_files;
+CREATE TRIGGER normalize_code_file_path
+  BEFORE INSERT OR UPDATE OF filename ON code_files
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_code_file_path();
+
+UPDATE code_files
+SET filename = COALESCE(NULLIF(normalize_file_path(filename), ''), 'untitled')
+WHERE filename IS DISTINCT FROM normalize_file_path(filename) OR filename = '';
+
+WITH duplicates AS (
+  SELECT id, filename, row_number() OVER (PARTITION BY session_id, filename ORDER BY created_at, id) AS n
+  FROM code_files
+)
+UPDATE code_files
+SET filename = regexp_replace(duplicates.filename, '(\.[^./]+)?$', '-' || duplicates.n || '\1')
+FROM duplicates
+WHERE code_files.id = duplicates.id AND duplicates.n > 1;
+
+ALTER TABLE code_files DROP CONSTRAINT IF EXISTS code_files_filename_is_path;
+ALTER TABLE code_files ADD CONSTRAINT code_files_filename_is_path
+  CHECK (filename <> '' AND filename = normalize_file_path(filename));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_code_files_session_path ON code_files(session_id, filename);
+
+DROP POLICY IF EXISTS "Users can delete code files in sessions where their role may edit" ON code_files;
+CREATE POLICY "Users can delete code files in sessions where their role may edit"
+  ON code_files
+  FOR DELETE
+  TO authenticated
+  USING (session_can(session_id, 'edit'));
@@ -0,0 +1,17 @@
+/*
+  # Languages from the registry
+
+  1. Changes
+    - `sessions.language` no longer lists the allowed languages. They live in
+      the language registry (`supabase/functions/_shared/language-registry.ts`,
+      shared by the client and the edge functions), so adding one needs no
+      migration. The column is only checked to hold something shaped like a
+      registry id, such as `typescript` or `go`; the client offers and
+      generate-code accepts only registered ones
+*/
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_language_check;
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_language_is_id;
+ALTER TABLE sessions ADD CONSTRAINT sessions_language_is_id
+  CHECK (language ~ '^[a-z][a-z0-9-]*$');
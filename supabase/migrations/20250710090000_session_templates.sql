@@ -0,0 +1,68 @@
+/*
+  # Session templates
+
+  1. New Tables
+    - `session_templates`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, references auth.users)
+      - `source_session_id` (uuid, references sessions, the session it was
+        saved from)
+      - `name` (text)
+      - `description` (text)
+      - `language` (text, default language of sessions created from it)
+      - `system_message` (text, posted as the first message of those sessions)
+      - `files` (jsonb, array of `{ filename, content }`)
+      - `is_public` (boolean, whether every user can start from it)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `session_templates`
+    - A template can be used by its owner, by the members of the session it
+      was saved from, and by everyone once it is public
+    - Roles that may edit a session's files can save it as a template; only
+      the owner can delete one
+    - The built-in catalogue lives in `src/lib/templates.ts`, not here
+*/
+
+CREATE TABLE IF NOT EXISTS session_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source_session_id uuid REFERENCES sessions(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text DEFAULT '',
+  language text NOT NULL CHECK (language ~ '^[a-z][a-z0-9-]*$'),
+  system_message text DEFAULT '',
+  files jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(files) = 'array'),
+  is_public boolean DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE session_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own, their sessions' and public templates" ON session_templates;
+CREATE POLICY "Users can view their own, their sessions' and public templates"
+  ON session_templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid() OR
+    is_public = true OR
+    (source_session_id IS NOT NULL AND session_role(source_session_id) IS NOT NULL)
+  );
+
+DROP POLICY IF EXISTS "Session editors can save the session as a template" ON session_templates;
+CREATE POLICY "Session editors can save the session as a template"
+  ON session_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND session_can(source_session_id, 'edit'));
+
+DROP POLICY IF EXISTS "Owners can delete their templates" ON session_templates;
+CREATE POLICY "Owners can delete their templates"
+  ON session_templates
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_session_templates_owner_id ON session_templates(owner_id);
+CREATE INDEX IF NOT EXISTS idx_session_templates_source_session_id ON session_templates(source_session_id);
@@ -1,10 +1,44 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createReadStream, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+
+// Pyodide runtime files, served from /pyodide/ so Python runs without
+// fetching anything from a CDN
+const PYODIDE_ASSETS: Record<string, string> = {
+  'pyodide.mjs': 'text/javascript',
+  'pyodide.asm.mjs': 'text/javascript',
+  'pyodide.asm.wasm': 'application/wasm',
+  'python_stdlib.zip': 'application/zip',
+  'pyodide-lock.json': 'application/json',
+};
+
+function pyodideAssets(): Plugin {
+  const pyodideDir = dirname(createRequire(import.meta.url).resolve('pyodide/package.json'));
+
+  return {
+    name: 'pyodide-assets',
+    configureServer(server) {
+      server.middlewares.use('/pyodide', (req, res, next) => {
+        const name = (req.url ?? '').split('?')[0].replace(/^\//, '');
+        if (!PYODIDE_ASSETS[name]) return next();
+        res.setHeader('Content-Type', PYODIDE_ASSETS[name]);
+        createReadStream(join(pyodideDir, name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of Object.keys(PYODIDE_ASSETS)) {
+        this.emitFile({ type: 'asset', fileName: `pyodide/${name}`, source: readFileSync(join(pyodideDir, name)) });
+      }
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets()],
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'pyodide'],
   },
 });